@@ -1,3 +1,4 @@
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as fsPromises from "fs/promises";
 import * as path from "path";
@@ -10,7 +11,29 @@ import {
   insertTextImpl,
   moveOrRenameFileImpl,
   deleteFileImpl,
+  createDirectoryImpl,
+  moveOrRenameDirectoryImpl,
+  deleteDirectoryImpl,
+  copyFileImpl,
   moveTextImpl,
+  replaceLinesImpl,
+  deleteLinesImpl,
+  insertAtLineImpl,
+  readFileImpl,
+  searchInFileImpl,
+  searchAcrossFilesImpl,
+  listDirectoryImpl,
+  configureAllowedRoots,
+  applyEditsImpl,
+  applyMultiFileEditsImpl,
+  undoLastEditImpl,
+  redoEditImpl,
+  listEditHistoryImpl,
+  listTrashImpl,
+  restoreFromTrashImpl,
+  emptyTrashImpl,
+  configureEditHistory,
+  configureTrash,
 } from "./file_tools_mcp";
 
 const accessSpy = jest.spyOn(fsPromises, "access");
@@ -19,17 +42,38 @@ const readFileSpy = jest.spyOn(fsPromises, "readFile");
 const writeFileSpy = jest.spyOn(fsPromises, "writeFile");
 const unlinkSpy = jest.spyOn(fsPromises, "unlink");
 const renameSpy = jest.spyOn(fsPromises, "rename");
+const rmSpy = jest.spyOn(fsPromises, "rm");
+const copyFileSpy = jest.spyOn(fsPromises, "copyFile");
 const openSpy = jest.spyOn(fsPromises, "open");
+const readdirSpy = jest.spyOn(fsPromises, "readdir");
+const originalRealpath = fsPromises.realpath;
+const realpathSpy = jest.spyOn(fsPromises, "realpath");
 const existsSyncSpy = jest.spyOn(fs, "existsSync");
 const mkdirSyncSpy = jest.spyOn(fs, "mkdirSync");
 
+const chmodSpy = jest.spyOn(fsPromises, "chmod");
+const chownSpy = jest.spyOn(fsPromises, "chown");
+const utimesSpy = jest.spyOn(fsPromises, "utimes");
+
 const mockFileHandle = {
   read: jest.fn().mockImplementation(async (buffer: Buffer) => {
     return { bytesRead: 0, buffer };
   }),
+  sync: jest.fn().mockResolvedValue(undefined),
   close: jest.fn().mockResolvedValue(undefined),
 };
 
+// Files are written to a sibling temp file which is then renamed over them
+const isTempFileFor = (tempPath: string, filePath: string) =>
+  path.dirname(tempPath) === path.dirname(filePath) &&
+  path.basename(tempPath).startsWith(`.${path.basename(filePath)}.`) &&
+  tempPath.endsWith(".tmp");
+
+const tempFileFor = (filePath: string) => ({
+  asymmetricMatch: (tempPath: string) => isTempFileFor(tempPath, filePath),
+  toString: () => `TempFileFor<${filePath}>`,
+});
+
 const testFilePath = path.join(__dirname, "mock_test_file.txt");
 const testFileContent = fs.readFileSync(testFilePath, "utf-8");
 
@@ -44,12 +88,22 @@ describe("File editing Tools Test Suite", () => {
 
     existsSyncSpy.mockReturnValue(true);
     accessSpy.mockResolvedValue(undefined);
-    statSpy.mockResolvedValue({ size: 100 } as any);
+    statSpy.mockResolvedValue({
+      size: 100,
+      mode: 0o100644,
+      uid: 1000,
+      gid: 1000,
+    } as any);
     readFileSpy.mockResolvedValue("dummy content");
     openSpy.mockResolvedValue(mockFileHandle as any);
     writeFileSpy.mockResolvedValue(undefined);
     unlinkSpy.mockResolvedValue(undefined);
     renameSpy.mockResolvedValue(undefined);
+    rmSpy.mockResolvedValue(undefined);
+    copyFileSpy.mockResolvedValue(undefined);
+    chmodSpy.mockResolvedValue(undefined);
+    chownSpy.mockResolvedValue(undefined);
+    utimesSpy.mockResolvedValue(undefined);
     mkdirSyncSpy.mockReturnValue(undefined);
   });
 
@@ -65,7 +119,14 @@ describe("File editing Tools Test Suite", () => {
     writeFileSpy.mockRestore();
     unlinkSpy.mockRestore();
     renameSpy.mockRestore();
+    rmSpy.mockRestore();
+    copyFileSpy.mockRestore();
+    chmodSpy.mockRestore();
+    chownSpy.mockRestore();
+    utimesSpy.mockRestore();
     openSpy.mockRestore();
+    readdirSpy.mockRestore();
+    realpathSpy.mockRestore();
     existsSyncSpy.mockRestore();
     mkdirSyncSpy.mockRestore();
   });
@@ -194,7 +255,7 @@ describe("File editing Tools Test Suite", () => {
           "Successfully replaced 1 occurrence"
         );
         expect(writeFileSpy).toHaveBeenCalledWith(
-          testFilePath,
+          tempFileFor(testFilePath),
           "hello world\nbaz qux\nhello world",
           "utf-8"
         );
@@ -214,7 +275,7 @@ describe("File editing Tools Test Suite", () => {
         expect(result.success).toBe(false);
         expect(result.result.message).toContain("Multiple matches");
         expect(result.result.SuggestedParameterValues).toBeDefined();
-        expect(result.result.SuggestedParameterValues).toEqual([
+        expect(result.result.SuggestedParameterValues).toMatchObject([
           {
             searchText: `and foo\nonly`,
           },
@@ -238,7 +299,7 @@ describe("File editing Tools Test Suite", () => {
         expect(result.success).toBe(false);
         expect(result.result.message).toContain("Multiple matches");
         expect(result.result.SuggestedParameterValues).toBeDefined();
-        expect(result.result.SuggestedParameterValues).toEqual([
+        expect(result.result.SuggestedParameterValues).toMatchObject([
           {
             searchText: `foo no`,
           },
@@ -265,6 +326,124 @@ describe("File editing Tools Test Suite", () => {
       });
     });
 
+    describe("Replacing all occurrences", () => {
+      it("should replace every occurrence, not just the first three", async () => {
+        const content = Array.from(
+          { length: 250 },
+          (_, i) => `call(oldName, ${i});`
+        ).join("\n");
+        readFileSpy.mockResolvedValue(content);
+
+        const result = await replaceMatchingTextImpl({
+          filePath: testFilePath,
+          searchText: "oldName",
+          replacementText: "newName",
+          replaceAllOccurrencesOfSearchText: true,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.result.message).toContain(
+          "Successfully replaced 250 occurrences"
+        );
+        expect(writeFileSpy).toHaveBeenCalledWith(
+          tempFileFor(testFilePath),
+          content.replace(/oldName/g, "newName"),
+          "utf-8"
+        );
+      });
+
+      it("should replace whitespace-insensitive matches spanning lines", async () => {
+        readFileSpy.mockResolvedValue("a(\n  b)\na( b)\na(b)\na(b)");
+
+        const result = await replaceMatchingTextImpl({
+          filePath: testFilePath,
+          searchText: "a(b)",
+          replacementText: "c()",
+          replaceAllOccurrencesOfSearchText: true,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.result.message).toContain("replaced 4 occurrences");
+        expect(writeFileSpy).toHaveBeenCalledWith(
+          tempFileFor(testFilePath),
+          "c()\nc()\nc()\nc()",
+          "utf-8"
+        );
+      });
+
+      it("should skip overlapping matches", async () => {
+        readFileSpy.mockResolvedValue("aaaaa");
+
+        const result = await replaceMatchingTextImpl({
+          filePath: testFilePath,
+          searchText: "aa",
+          replacementText: "b",
+          replaceAllOccurrencesOfSearchText: true,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.result.message).toContain("replaced 2 occurrences");
+        expect(writeFileSpy).toHaveBeenCalledWith(
+          tempFileFor(testFilePath),
+          "bba",
+          "utf-8"
+        );
+      });
+
+      it("should replace when expectedOccurrences matches the real count", async () => {
+        readFileSpy.mockResolvedValue("x x x x");
+
+        const result = await replaceMatchingTextImpl({
+          filePath: testFilePath,
+          searchText: "x",
+          replacementText: "y",
+          replaceAllOccurrencesOfSearchText: true,
+          expectedOccurrences: 4,
+        });
+
+        expect(result.success).toBe(true);
+        expect(writeFileSpy).toHaveBeenCalledWith(
+          tempFileFor(testFilePath),
+          "y y y y",
+          "utf-8"
+        );
+      });
+
+      it("should abort when expectedOccurrences differs from the real count", async () => {
+        readFileSpy.mockResolvedValue("x x x x x");
+
+        const result = await replaceMatchingTextImpl({
+          filePath: testFilePath,
+          searchText: "x",
+          replacementText: "y",
+          replaceAllOccurrencesOfSearchText: true,
+          expectedOccurrences: 4,
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.result.message).toContain(
+          "Expected 4 occurrences of searchText but found 5"
+        );
+        expect(writeFileSpy).not.toHaveBeenCalled();
+      });
+
+      it("should apply expectedOccurrences in single match mode", async () => {
+        readFileSpy.mockResolvedValue("x x");
+
+        const result = await replaceMatchingTextImpl({
+          filePath: testFilePath,
+          searchText: "x",
+          replacementText: "y",
+          expectedOccurrences: 1,
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.result.message).toContain(
+          "Expected 1 occurrence of searchText but found 2"
+        );
+      });
+    });
+
     describe("Fuzzy matching and suggestions", () => {
       it("should suggest corrected searchText when only prefix of searchText matches", async () => {
         readFileSpy.mockResolvedValue(
@@ -503,7 +682,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully deleted 1 occurrence"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "hello world\n\nhello world",
         "utf-8"
       );
@@ -535,12 +714,49 @@ describe("File editing Tools Test Suite", () => {
         "Successfully deleted 3 occurrences"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         " bar  baz ",
         "utf-8"
       );
     });
 
+    it("should delete more than three matches when deleteAllMatches is true", async () => {
+      readFileSpy.mockResolvedValue("x1 x2 x3 x4 x5");
+
+      const result = await deleteMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "x",
+        deleteAllOccurrencesOfSearchText: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain(
+        "Successfully deleted 5 occurrences"
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "1 2 3 4 5",
+        "utf-8"
+      );
+    });
+
+    it("should not delete anything if expectedOccurrences does not match", async () => {
+      readFileSpy.mockResolvedValue("foo bar foo baz foo");
+
+      const result = await deleteMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "foo",
+        deleteAllOccurrencesOfSearchText: true,
+        expectedOccurrences: 2,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "Expected 2 occurrences of searchText but found 3"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
     it("should fail with multiple matches when deleteAllMatches is false", async () => {
       readFileSpy.mockResolvedValue("foo bar foo baz foo");
 
@@ -605,7 +821,7 @@ describe("File editing Tools Test Suite", () => {
         "File " + testFilePath + " created successfully"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "Hello World",
         "utf-8"
       );
@@ -619,7 +835,11 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(result.result.message).toContain("created successfully");
-      expect(writeFileSpy).toHaveBeenCalledWith(testFilePath, "", "utf-8");
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "",
+        "utf-8"
+      );
     });
 
     it("should fail if file already exists", async () => {
@@ -672,7 +892,7 @@ describe("File editing Tools Test Suite", () => {
         recursive: true,
       });
       expect(writeFileSpy).toHaveBeenCalledWith(
-        nonExistentPath,
+        tempFileFor(nonExistentPath),
         "content",
         "utf-8"
       );
@@ -704,7 +924,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully replaced entire content"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "New content",
         "utf-8"
       );
@@ -781,7 +1001,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully appended provided text"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "existing content\nnew line",
         "utf-8"
       );
@@ -798,7 +1018,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "existing content\nnew line",
         "utf-8"
       );
@@ -815,7 +1035,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "existing contentnew text",
         "utf-8"
       );
@@ -832,7 +1052,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line1\r\nline2\r\nline3",
         "utf-8"
       );
@@ -897,7 +1117,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line1\r\ninserted\r\nline2\r\n",
         "utf-8"
       );
@@ -920,7 +1140,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully inserted provided text after the matched anchorText"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  console.log('hello');\n  console.log('world');\n}",
         "utf-8"
       );
@@ -939,7 +1159,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line1\ninserted line\nline2",
         "utf-8"
       );
@@ -962,7 +1182,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully inserted provided text before the matched anchorText"
       );
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n    console.log('world');console.log('hello');\n}",
         "utf-8"
       );
@@ -981,7 +1201,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line1\ninserted line\nline2",
         "utf-8"
       );
@@ -1004,7 +1224,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK START\nline1\ninserted line\nline2\nBLOCK END\nfooter",
         "utf-8"
       );
@@ -1027,7 +1247,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK START\nline1\ninserted line\nline2\nBLOCK END\nfooter",
         "utf-8"
       );
@@ -1050,7 +1270,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "BLOCK START\nlineA\nBLOCK END\nBLOCK START\nlineB\ninserted line\nBLOCK END",
         "utf-8"
       );
@@ -1125,7 +1345,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line1\nBLOCK START\nline1\ninserted\nfooter",
         "utf-8"
       );
@@ -1148,7 +1368,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK STARTline1\ninserted\nline2\nBLOCK END\nfooter",
         "utf-8"
       );
@@ -1170,7 +1390,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(writeFileSpy).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK START\nline1\ninsertedline2BLOCK END\nfooter",
         "utf-8"
       );
@@ -1227,7 +1447,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const b = 2;\n  const a = 1;\n  const c = 3;\n}",
         "utf-8"
       );
@@ -1248,7 +1468,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;\n  const c = 3;\n  const b = 2;\n}",
         "utf-8"
       );
@@ -1269,7 +1489,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;\n  \n  const c = 3; const b = 2;return c;\n}",
         "utf-8"
       );
@@ -1290,7 +1510,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;\n  \n  const c = 3;const b = 2; return c;\n}",
         "utf-8"
       );
@@ -1311,7 +1531,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const b = 2;\n  const c = 3;\n  const a = 1;\n  const d = 4;\n}",
         "utf-8"
       );
@@ -1332,7 +1552,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;\n  const d = 4;\n  const b = 2;\n  const c = 3;\n}",
         "utf-8"
       );
@@ -1353,7 +1573,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1; ; const d = 4;\n  const b = 2;\n  const c = 3const e = 5;\n}",
         "utf-8"
       );
@@ -1374,7 +1594,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1; ; const d = 4;const b = 2;\n  const c = 3\n  const e = 5;\n}",
         "utf-8"
       );
@@ -1395,7 +1615,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const b = 2const a = 1; ;\n  const c = 3;\n}",
         "utf-8"
       );
@@ -1416,7 +1636,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1; ;\n  const c = 3;const b = 2\n}",
         "utf-8"
       );
@@ -1437,7 +1657,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;\n \n const c = 3; const b = 2;return a;\n}",
         "utf-8"
       );
@@ -1458,7 +1678,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;\n \n const c = 3;const b = 2; return a;\n}",
         "utf-8"
       );
@@ -1479,7 +1699,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;  const d = 4;\n  const b = 2;\n  const c = 3;const e = 5;\n}",
         "utf-8"
       );
@@ -1500,7 +1720,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1;  const d = 4;\n  const e = 5;const b = 2;\n  const c = 3;\n}",
         "utf-8"
       );
@@ -1521,7 +1741,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block before the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1; \n  const d = 4; const b = 2;\n  const c = 3;return sum;\n}",
         "utf-8"
       );
@@ -1542,7 +1762,7 @@ describe("File editing Tools Test Suite", () => {
         "Successfully moved the text block after the matched anchorText"
       );
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function alpha() {\n  const a = 1; \n  const d = 4;const b = 2;\n  const c = 3; return sum;\n}",
         "utf-8"
       );
@@ -1560,7 +1780,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function nested() {\n  if (true) {\n  }\n  const z = 3;\n    const x = 1;\n    const y = 2;\n}",
         "utf-8"
       );
@@ -1578,7 +1798,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function mix() {\n  \tconst b = 2;\nconst a = 1;\n    const c = 3;\n}",
         "utf-8"
       );
@@ -1596,7 +1816,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  const middle = 2;\nconst first = 1;\n  const last = 3;\n}",
         "utf-8"
       );
@@ -1614,7 +1834,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  const first = 1;\nconst last = 3;\n  const middle = 2;\n}\n",
         "utf-8"
       );
@@ -1632,7 +1852,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "  const move = 3;\nconst first = 1;\nfunction test() {\n  const middle = 2;\n}",
         "utf-8"
       );
@@ -1650,7 +1870,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "const first = 1;\n  const move = 3;\nfunction test() {\n  const middle = 2;\n}",
         "utf-8"
       );
@@ -1668,7 +1888,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  const middle = 2;\n}\n  const move = 1;\nconst last = 3;",
         "utf-8"
       );
@@ -1686,7 +1906,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  const middle = 2;\n}\nconst last = 3;\n  const move = 1;",
         "utf-8"
       );
@@ -1704,7 +1924,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  const middle = 3;\n}\nconst a = 1;\nconst b = 2;\nconst last = 4;",
         "utf-8"
       );
@@ -1722,7 +1942,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "const first = 1;\nconst a = 3;\nconst b = 4;\nfunction test() {\n  const middle = 2;\n}\n",
         "utf-8"
       );
@@ -1740,7 +1960,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         " const second = 2;\nfunction test() {\n  const first = 1;return 'done';\n}",
         "utf-8"
       );
@@ -1758,7 +1978,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "function test() {\n  const start = 1;const middle = 2; const end = 3;\n  return 'done'; ",
         "utf-8"
       );
@@ -1776,7 +1996,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "const content = 2;\nconst only = 1;\n",
         "utf-8"
       );
@@ -1794,7 +2014,7 @@ describe("File editing Tools Test Suite", () => {
       });
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "const a = 1;  const c = 3;const b = 2;",
         "utf-8"
       );
@@ -1816,7 +2036,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK START\nfooter\nline1\nBLOCK END\nfooter",
         "utf-8"
       );
@@ -1838,7 +2058,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK START\nline2\nheader\nBLOCK END\nfooter",
         "utf-8"
       );
@@ -1860,7 +2080,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "BLOCK START\nlineA\nBLOCK END\nlineC\nmiddleLine\nBLOCK START\nlineB\nBLOCK END\nmiddleLine",
         "utf-8"
       );
@@ -1921,7 +2141,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line1\nBLOCK START\nfooter\nline1\n",
         "utf-8"
       );
@@ -1943,7 +2163,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "header\nBLOCK STARTline1\nfooter\nline2\nBLOCK END\n",
         "utf-8"
       );
@@ -1965,7 +2185,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "BLOCK START\nline1\nheader\nline2BLOCK END\nfooter",
         "utf-8"
       );
@@ -1985,7 +2205,7 @@ describe("File editing Tools Test Suite", () => {
 
       expect(result.success).toBe(true);
       expect(fs.promises.writeFile).toHaveBeenCalledWith(
-        testFilePath,
+        tempFileFor(testFilePath),
         "line2\r\nline1\r\nline3\r\n",
         "utf-8"
       );
@@ -2167,4 +2387,3894 @@ describe("File editing Tools Test Suite", () => {
       expect(mockFileHandle.read).not.toHaveBeenCalled();
     });
   });
+
+  describe("readFileImpl", () => {
+    it("should return line numbered content of the whole file", async () => {
+      readFileSpy.mockResolvedValue("first\nsecond\nthird\n");
+
+      const result = await readFileImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("1 | first\n2 | second\n3 | third");
+      expect(result.result.totalLines).toBe(3);
+      expect(result.result.truncated).toBe(false);
+      expect(result.result.message).toContain(
+        "Successfully read lines 1-3 of 3"
+      );
+    });
+
+    it("should return requested line range without line numbers", async () => {
+      readFileSpy.mockResolvedValue("a\r\nb\r\nc\r\nd");
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        startLine: 2,
+        endLine: 3,
+        includeLineNumbers: false,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("b\nc");
+      expect(result.result.startLine).toBe(2);
+      expect(result.result.endLine).toBe(3);
+      expect(result.result.totalLines).toBe(4);
+    });
+
+    it("should pad line numbers to the widest line number", async () => {
+      readFileSpy.mockResolvedValue(
+        Array.from({ length: 12 }, (_, i) => `line${i + 1}`).join("\n")
+      );
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        startLine: 9,
+        endLine: 10,
+      });
+
+      expect(result.result.content).toBe(" 9 | line9\n10 | line10");
+    });
+
+    it("should truncate at a line boundary and hint how to continue", async () => {
+      readFileSpy.mockResolvedValue("aaaa\nbbbb\ncccc\ndddd");
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        includeLineNumbers: false,
+        maxCharacters: 10,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("aaaa\nbbbb");
+      expect(result.result.truncated).toBe(true);
+      expect(result.result.nextStartLine).toBe(3);
+      expect(result.result.message).toContain("startLine set to 3");
+    });
+
+    it("should return part of a single line longer than maxCharacters", async () => {
+      readFileSpy.mockResolvedValue("abcdefghij\nsecond");
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        includeLineNumbers: false,
+        maxCharacters: 4,
+      });
+
+      expect(result.result.content).toBe("abcd");
+      expect(result.result.truncated).toBe(true);
+      expect(result.result.nextStartLine).toBe(1);
+      expect(result.result.nextStartColumn).toBe(5);
+      expect(result.result.message).toContain(
+        "startLine set to 1 and startColumn set to 5"
+      );
+
+      const rest = await readFileImpl({
+        filePath: testFilePath,
+        startLine: 1,
+        startColumn: 5,
+        maxCharacters: 30,
+      });
+
+      expect(rest.result.content).toBe("1 | efghij\n2 | second");
+      expect(rest.result.truncated).toBe(false);
+    });
+
+    it("should report truncation of the only line of a file", async () => {
+      readFileSpy.mockResolvedValue("x".repeat(200));
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        maxCharacters: 50,
+      });
+
+      expect(result.result.content).toBe(`1 | ${"x".repeat(46)}`);
+      expect(result.result.truncated).toBe(true);
+      expect(result.result.nextStartLine).toBe(1);
+      expect(result.result.nextStartColumn).toBe(47);
+    });
+
+    it("should clamp endLine to the last line", async () => {
+      readFileSpy.mockResolvedValue("a\nb");
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        startLine: 2,
+        endLine: 50,
+        includeLineNumbers: false,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("b");
+      expect(result.result.endLine).toBe(2);
+    });
+
+    it("should fail if startLine is beyond the end of file", async () => {
+      readFileSpy.mockResolvedValue("a\nb");
+
+      const result = await readFileImpl({
+        filePath: testFilePath,
+        startLine: 5,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("Invalid line range");
+    });
+
+    it("should report empty files", async () => {
+      readFileSpy.mockResolvedValue("");
+
+      const result = await readFileImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("");
+      expect(result.result.message).toContain("is empty");
+    });
+
+    it("should only require read access", async () => {
+      readFileSpy.mockResolvedValue("a");
+
+      await readFileImpl({ filePath: testFilePath });
+
+      expect(accessSpy).toHaveBeenCalledWith(testFilePath, fs.constants.R_OK);
+    });
+
+    it("should fail if file does not exist", async () => {
+      existsSyncSpy.mockReturnValue(false);
+
+      const result = await readFileImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("does not exist");
+    });
+
+    it("should fail for binary files", async () => {
+      const result = await readFileImpl({
+        filePath: path.join(testDir, "image.png"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("appears to be binary");
+    });
+  });
+
+  describe("searchInFileImpl", () => {
+    it("should return every match with positions and context", async () => {
+      readFileSpy.mockResolvedValue(
+        "line1\nfoo  bar\nline3\nline4\nline5\nfoo\n  bar\nline8"
+      );
+
+      const result = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "foo bar",
+        contextLines: 1,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("Found 2 matches");
+      expect(result.result.matches).toEqual([
+        {
+          startLine: 2,
+          startColumn: 1,
+          endLine: 2,
+          endColumn: 8,
+          matchedText: "foo  bar",
+          contextStartLine: 1,
+          context: "line1\nfoo  bar\nline3",
+        },
+        {
+          startLine: 6,
+          startColumn: 1,
+          endLine: 7,
+          endColumn: 5,
+          matchedText: "foo\n  bar",
+          contextStartLine: 5,
+          context: "line5\nfoo\n  bar\nline8",
+        },
+      ]);
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should handle CRLF line endings when computing positions", async () => {
+      readFileSpy.mockResolvedValue("a\r\nb\r\n  target\r\nc");
+
+      const result = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "target",
+        contextLines: 0,
+      });
+
+      expect(result.result.matches[0]).toMatchObject({
+        startLine: 3,
+        startColumn: 3,
+        context: "  target",
+      });
+    });
+
+    it("should limit the number of returned matches", async () => {
+      readFileSpy.mockResolvedValue("x\nx\nx\nx");
+
+      const result = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "x",
+        maxMatches: 2,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.matches).toHaveLength(2);
+      expect(result.result.message).toContain("(or more)");
+    });
+
+    it("should return fuzzy suggestions when there is no match", async () => {
+      readFileSpy.mockResolvedValue(
+        "function calculateTotal(items) {\n  return 0;\n}"
+      );
+
+      const result = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "function calculateTotals(items)",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("No match found for searchText");
+      expect(result.result.SuggestedParameterValues).toMatchObject([
+        { searchText: "function calculateTotal(items)" },
+      ]);
+    });
+
+    it("should fail if file does not exist", async () => {
+      existsSyncSpy.mockReturnValue(false);
+
+      const result = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "x",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("does not exist");
+    });
+  });
+
+  describe("searchAcrossFilesImpl", () => {
+    const mockDirent = (name: string, isDirectory = false) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory,
+    });
+
+    beforeEach(() => {
+      statSpy.mockResolvedValue({ size: 100, isDirectory: () => true } as any);
+      readdirSpy.mockImplementation((async (dirPath: string) => {
+        const relativeDir = path.relative(testDir, dirPath);
+        const tree: Record<string, any[]> = {
+          "": [
+            mockDirent("src", true),
+            mockDirent("node_modules", true),
+            mockDirent("notes.md"),
+            mockDirent("logo.png"),
+          ],
+          src: [mockDirent("a.ts"), mockDirent("b.ts"), mockDirent("c.js")],
+          node_modules: [mockDirent("dep.ts")],
+        };
+        return tree[relativeDir] ?? [];
+      }) as any);
+      readFileSpy.mockImplementation((async (filePath: string) => {
+        const contents: Record<string, string> = {
+          "notes.md": "call  doWork()\nhere",
+          "src/a.ts": "const x = 1;\nfunction doWork() {\n  return x;\n}",
+          "src/b.ts": "doWork();\nconst y = 2;\ndoWork();",
+          "src/c.js": "doWork();",
+          "node_modules/dep.ts": "doWork();",
+        };
+        return contents[
+          path.relative(testDir, filePath).split(path.sep).join("/")
+        ];
+      }) as any);
+    });
+
+    it("should skip files that can not be read", async () => {
+      const readContent = readFileSpy.getMockImplementation()!;
+      readFileSpy.mockImplementation((async (
+        filePath: string,
+        ...rest: any[]
+      ) => {
+        if (filePath.endsWith("b.ts")) {
+          throw new Error("EACCES: permission denied");
+        }
+        return (readContent as any)(filePath, ...rest);
+      }) as any);
+
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "doWork()",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("Found 3 matches in 3 files");
+      expect(result.result.message).toContain(
+        "(3 files searched, 1 unreadable entry skipped)"
+      );
+    });
+
+    it("should skip directories that can not be read", async () => {
+      const readTree = readdirSpy.getMockImplementation()!;
+      readdirSpy.mockImplementation((async (
+        dirPath: string,
+        ...rest: any[]
+      ) => {
+        if (path.basename(dirPath) === "src") {
+          throw new Error("EACCES: permission denied");
+        }
+        return (readTree as any)(dirPath, ...rest);
+      }) as any);
+
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "doWork()",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.matches!.map((m) => m.filePath)).toEqual([
+        path.join(testDir, "notes.md"),
+      ]);
+      expect(result.result.message).toContain(
+        "(1 files searched, 1 unreadable entry skipped)"
+      );
+    });
+
+    it("should return matches across files skipping binary and excluded files", async () => {
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "doWork()",
+      });
+
+      expect(result.success).toBe(true);
+      expect(
+        result.result.matches.map((m) => [
+          path.relative(testDir, m.filePath).split(path.sep).join("/"),
+          m.startLine,
+        ])
+      ).toEqual([
+        ["notes.md", 1],
+        ["src/a.ts", 2],
+        ["src/b.ts", 1],
+        ["src/b.ts", 3],
+        ["src/c.js", 1],
+      ]);
+      expect(result.result.message).toContain("Found 5 matches in 4 files");
+      expect(readFileSpy).not.toHaveBeenCalledWith(
+        path.join(testDir, "logo.png"),
+        "utf-8"
+      );
+    });
+
+    it("should honor include and exclude globs", async () => {
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "doWork()",
+        includeGlobs: ["src/**/*.{ts,js}"],
+        excludeGlobs: ["b.ts"],
+      });
+
+      expect(result.success).toBe(true);
+      expect(
+        result.result.matches.map((m) => path.basename(m.filePath))
+      ).toEqual(["a.ts", "c.js"]);
+    });
+
+    it("should return context lines and matched text", async () => {
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "function doWork() { return x; }",
+        contextLines: 1,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.matches).toHaveLength(1);
+      expect(result.result.matches[0]).toMatchObject({
+        filePath: path.join(testDir, "src", "a.ts"),
+        startLine: 2,
+        endLine: 4,
+        matchedText: "function doWork() {\n  return x;\n}",
+        contextStartLine: 1,
+      });
+    });
+
+    it("should stop after maxMatches", async () => {
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "doWork()",
+        maxMatches: 2,
+      });
+
+      expect(result.result.matches).toHaveLength(2);
+      expect(result.result.message).toContain("(or more)");
+    });
+
+    it("should rank near misses by similarity when there is no exact match", async () => {
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "const y = 3;",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("No match found for searchText");
+      const suggestions = result.result.SuggestedParameterValues;
+      expect(suggestions[0]).toMatchObject({
+        filePath: path.join(testDir, "src", "b.ts"),
+        startLine: 2,
+      });
+      for (let i = 1; i < suggestions.length; i++) {
+        expect(suggestions[i - 1].similarity).toBeGreaterThanOrEqual(
+          suggestions[i].similarity
+        );
+      }
+    });
+
+    it("should fail if directory does not exist", async () => {
+      existsSyncSpy.mockReturnValue(false);
+
+      const result = await searchAcrossFilesImpl({
+        directoryPath: testDir,
+        searchText: "doWork()",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("does not exist");
+    });
+  });
+
+  describe("Allowed roots sandbox", () => {
+    beforeEach(async () => {
+      await configureAllowedRoots([testDir]);
+    });
+
+    afterEach(async () => {
+      realpathSpy.mockImplementation(originalRealpath);
+      await configureAllowedRoots([]);
+    });
+
+    it("should allow paths within an allowed root", async () => {
+      readFileSpy.mockResolvedValue("old");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "old",
+        replacementText: "new",
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should reject absolute paths outside of allowed roots", async () => {
+      const outsidePath = path.resolve(testDir, "..", "outside.txt");
+
+      const result = await readFileImpl({ filePath: outsidePath });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        `Path ${outsidePath} is outside of the directories`
+      );
+      expect(readFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject paths escaping through '..' segments", async () => {
+      const escapingPath = path.join(testDir, "sub", "..", "..", "x.txt");
+
+      const result = await deleteFileImpl({ filePath: escapingPath });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("outside of the directories");
+      expect(unlinkSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject paths escaping through symbolic links", async () => {
+      const linkPath = path.join(testDir, "link");
+      realpathSpy.mockImplementation((async (p: string) => {
+        if (p.startsWith(linkPath)) return p.replace(linkPath, "/etc");
+        throw Object.assign(new Error("not found"), { code: "ENOENT" });
+      }) as any);
+
+      const result = await overwriteFileContentImpl({
+        filePath: path.join(linkPath, "passwd"),
+        fileContent: "x",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("outside of the directories");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should not create missing directories outside of allowed roots", async () => {
+      existsSyncSpy.mockReturnValue(false);
+
+      const result = await createFileImpl({
+        filePath: path.resolve(testDir, "..", "newDir", "file.txt"),
+        createMissingDirectories: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("outside of the directories");
+      expect(mkdirSyncSpy).not.toHaveBeenCalled();
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject move targets outside of allowed roots", async () => {
+      existsSyncSpy.mockImplementation((p) => p === testFilePath);
+
+      const result = await moveOrRenameFileImpl({
+        sourceFilePath: testFilePath,
+        targetFilePath: path.resolve(testDir, "..", "moved.txt"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("outside of the directories");
+      expect(renameSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject search directories outside of allowed roots", async () => {
+      const result = await searchAcrossFilesImpl({
+        directoryPath: path.resolve(testDir, ".."),
+        searchText: "x",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("outside of the directories");
+    });
+  });
+
+  describe("Dry run", () => {
+    it("should return a unified diff without writing for replaceMatchingTextImpl", async () => {
+      readFileSpy.mockResolvedValue("line1\nline2\nline3\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "line2",
+        replacementText: "LINE2",
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain(
+        "Dry run, no changes were written"
+      );
+      expect(result.result.message).toContain(
+        "Successfully replaced 1 occurrence"
+      );
+      expect(result.result.diff).toBe(
+        [
+          `--- ${testFilePath}`,
+          `+++ ${testFilePath}`,
+          "@@ -1,3 +1,3 @@",
+          " line1",
+          "-line2",
+          "+LINE2",
+          " line3",
+        ].join("\n")
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should split distant changes into separate hunks", async () => {
+      const lines = Array.from({ length: 20 }, (_, i) => `line${i + 1}`);
+      readFileSpy.mockResolvedValue(lines.join("\n") + "\n");
+
+      const result = await deleteMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "line1",
+        deleteAllOccurrencesOfSearchText: true,
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("deleted 11 occurrences");
+      const hunkHeaders = result.result.diff
+        .split("\n")
+        .filter((l) => l.startsWith("@@"));
+      expect(hunkHeaders).toEqual(["@@ -1,4 +1,4 @@", "@@ -7,14 +7,14 @@"]);
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should return a diff for insertTextImpl", async () => {
+      readFileSpy.mockResolvedValue("a\nb\nc\n");
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        anchorText: "b",
+        textToBeInserted: "inserted",
+        positionRelativeToAnchorText: "after",
+        addNewLine: true,
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.diff).toContain(
+        "@@ -1,3 +1,4 @@\n a\n b\n+inserted\n c"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should return a diff for moveTextImpl", async () => {
+      readFileSpy.mockResolvedValue("first\nsecond\nthird\n");
+
+      const result = await moveTextImpl({
+        filePath: testFilePath,
+        textToBeMoved: "third",
+        anchorText: "first",
+        positionRelativeToAnchorText: "before",
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.diff).toContain(
+        "@@ -1,3 +1,3 @@\n+third\n first\n second\n-third"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should mark missing newline at end of file for appendTextToFileImpl", async () => {
+      readFileSpy.mockResolvedValue("a");
+
+      const result = await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "b",
+        addNewLineBeforeAppending: true,
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.diff).toContain(
+        [
+          "@@ -1,1 +1,2 @@",
+          "-a",
+          "\\ No newline at end of file",
+          "+a",
+          "+b",
+          "\\ No newline at end of file",
+        ].join("\n")
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should return a diff for overwriteFileContentImpl", async () => {
+      readFileSpy.mockResolvedValue("old\n");
+
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "new\n",
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.diff).toContain("@@ -1,1 +1,1 @@\n-old\n+new");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should truncate the diff of a large change", async () => {
+      readFileSpy.mockResolvedValue("old\n");
+      const fileContent = Array.from(
+        { length: 1000 },
+        (_, i) => `line ${i}\n`
+      ).join("");
+
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent,
+        dryRun: true,
+      });
+
+      const diffLines = result.result.diff!.split("\n");
+      expect(result.success).toBe(true);
+      expect(diffLines).toHaveLength(501);
+      expect(diffLines[500]).toBe(
+        "... diff truncated, 504 more lines omitted. Use changedLineRanges and read_file to review the rest of the change."
+      );
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 1, endLine: 1000 },
+      ]);
+    });
+
+    it("should still report match failures", async () => {
+      readFileSpy.mockResolvedValue("a\nb\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "zzz",
+        replacementText: "y",
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("No match found");
+    });
+  });
+
+  describe("Edit result diff and changed line ranges", () => {
+    it("should return diff and shifted line ranges for every replacement", async () => {
+      readFileSpy.mockResolvedValue("a\nx\nb\nx\nc\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "x",
+        replacementText: "y1\ny2",
+        replaceAllOccurrencesOfSearchText: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "a\ny1\ny2\nb\ny1\ny2\nc\n",
+        "utf-8"
+      );
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 2, endLine: 3 },
+        { startLine: 5, endLine: 6 },
+      ]);
+      expect(result.result.diff).toContain("-x\n+y1\n+y2");
+    });
+
+    it("should honor diffContextLines", async () => {
+      readFileSpy.mockResolvedValue("1\n2\n3\n4\n5\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "3",
+        replacementText: "three",
+        diffContextLines: 0,
+      });
+
+      expect(result.result.diff).toBe(
+        [
+          `--- ${testFilePath}`,
+          `+++ ${testFilePath}`,
+          "@@ -3,1 +3,1 @@",
+          "-3",
+          "+three",
+        ].join("\n")
+      );
+    });
+
+    it("should report the line of a deletion", async () => {
+      readFileSpy.mockResolvedValue("keep\nremove me\nkeep\n");
+
+      const result = await deleteMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "remove me",
+      });
+
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 2, endLine: 2 },
+      ]);
+      expect(result.result.diff).toContain(
+        "@@ -1,3 +1,3 @@\n keep\n-remove me\n+\n keep"
+      );
+    });
+
+    it("should return the inserted line range for insertTextImpl", async () => {
+      readFileSpy.mockResolvedValue("a\nb\nc\n");
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        anchorText: "b",
+        textToBeInserted: "i1\ni2",
+        positionRelativeToAnchorText: "after",
+        addNewLine: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 2, endLine: 4 },
+      ]);
+    });
+
+    it("should return both the removal and insertion lines for moveTextImpl", async () => {
+      readFileSpy.mockResolvedValue("first\nsecond\nthird\n");
+
+      const result = await moveTextImpl({
+        filePath: testFilePath,
+        textToBeMoved: "first",
+        anchorText: "third",
+        positionRelativeToAnchorText: "after",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "second\nthird\nfirst\n",
+        "utf-8"
+      );
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 1, endLine: 1 },
+        { startLine: 2, endLine: 3 },
+      ]);
+    });
+
+    it("should return the appended line range for appendTextToFileImpl", async () => {
+      readFileSpy.mockResolvedValue("a\nb");
+
+      const result = await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "c\nd",
+        addNewLineBeforeAppending: true,
+      });
+
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 2, endLine: 4 },
+      ]);
+      expect(result.result.diff).toContain("+c\n+d");
+    });
+
+    it("should return the whole file range for overwriteFileContentImpl", async () => {
+      readFileSpy.mockResolvedValue("old");
+
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "n1\nn2\nn3",
+      });
+
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 1, endLine: 3 },
+      ]);
+    });
+  });
+
+  describe("applyEditsImpl", () => {
+    const content = [
+      "import { a } from './a';",
+      "",
+      "function first() {",
+      "  return a;",
+      "}",
+      "",
+      "function second() {",
+      "  return a + 1;",
+      "}",
+      "",
+    ].join("\n");
+
+    it("should apply all operations and write the file once", async () => {
+      readFileSpy.mockResolvedValue(content);
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          {
+            type: "replace",
+            searchText: "import { a } from './a';",
+            replacementText: "import { b } from './b';",
+          },
+          {
+            type: "replace",
+            searchText: "return a",
+            replacementText: "return b",
+            replaceAllOccurrencesOfSearchText: true,
+          },
+          {
+            type: "insert",
+            anchorText: "function second() {",
+            textToBeInserted: "  // second",
+            positionRelativeToAnchorText: "after",
+            addNewLine: true,
+          },
+          { type: "delete", searchText: "+ 1" },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain(
+        "Successfully applied 4 edit operations"
+      );
+      expect(writeFileSpy).toHaveBeenCalledTimes(1);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        [
+          "import { b } from './b';",
+          "",
+          "function first() {",
+          "  return b;",
+          "}",
+          "",
+          "function second() {",
+          "  // second",
+          "  return b ;",
+          "}",
+          "",
+        ].join("\n"),
+        "utf-8"
+      );
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 1, endLine: 1 },
+        { startLine: 4, endLine: 4 },
+        { startLine: 7, endLine: 8 },
+        { startLine: 9, endLine: 9 },
+        { startLine: 9, endLine: 9 },
+      ]);
+    });
+
+    it("should apply move operations together with other operations", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\nthree\n");
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          {
+            type: "move",
+            textToBeMoved: "three",
+            anchorText: "one",
+            positionRelativeToAnchorText: "before",
+          },
+          { type: "replace", searchText: "two", replacementText: "2" },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "three\none\n2\n",
+        "utf-8"
+      );
+    });
+
+    it("should not write anything and report every failed operation", async () => {
+      readFileSpy.mockResolvedValue(content);
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          {
+            type: "replace",
+            searchText: "function first()",
+            replacementText: "function one()",
+          },
+          {
+            type: "replace",
+            searchText: "function thrid()",
+            replacementText: "function three()",
+          },
+          {
+            type: "insert",
+            anchorText: "return",
+            textToBeInserted: "x",
+            positionRelativeToAnchorText: "before",
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "2 of 3 edit operations could not be applied"
+      );
+      expect(result.result.operationResults).toHaveLength(2);
+      expect(result.result.operationResults[0]).toMatchObject({
+        operationIndex: 1,
+        message: expect.stringContaining("No match found for searchText"),
+      });
+      expect(
+        result.result.operationResults[0].SuggestedParameterValues.length
+      ).toBeGreaterThan(0);
+      expect(result.result.operationResults[1]).toMatchObject({
+        operationIndex: 2,
+        message: expect.stringContaining(
+          "Multiple matches found for anchorText"
+        ),
+      });
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject operations changing overlapping text", async () => {
+      readFileSpy.mockResolvedValue(content);
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          {
+            type: "replace",
+            searchText: "function first() {",
+            replacementText: "function one() {",
+          },
+          {
+            type: "replace",
+            searchText: "first() { return a;",
+            replacementText: "x",
+          },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.operationResults[0].message).toContain(
+        "Edit operations 0 and 1 change overlapping text"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should allow insertions at the boundary of another operation", async () => {
+      readFileSpy.mockResolvedValue("abc def");
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          { type: "replace", searchText: "def", replacementText: "xyz" },
+          {
+            type: "insert",
+            anchorText: "def",
+            textToBeInserted: "!",
+            positionRelativeToAnchorText: "before",
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "abc !xyz",
+        "utf-8"
+      );
+    });
+
+    it("should match every operation against the original content", async () => {
+      readFileSpy.mockResolvedValue("alpha");
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          { type: "replace", searchText: "alpha", replacementText: "beta" },
+          { type: "replace", searchText: "beta", replacementText: "gamma" },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.operationResults[0].operationIndex).toBe(1);
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should fail for identical searchText and replacementText", async () => {
+      readFileSpy.mockResolvedValue("alpha");
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          { type: "replace", searchText: "alpha", replacementText: "alpha" },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.operationResults[0].message).toContain(
+        "searchText and replacementText are identical"
+      );
+    });
+
+    it("should support dry run", async () => {
+      readFileSpy.mockResolvedValue("alpha\n");
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          { type: "replace", searchText: "alpha", replacementText: "beta" },
+        ],
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.diff).toContain("-alpha\n+beta");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should fail for unknown operation types", async () => {
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [{ type: "rename" } as any],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("Invalid discriminator value");
+    });
+  });
+
+  describe("applyMultiFileEditsImpl", () => {
+    let fileA: string;
+    let fileB: string;
+
+    beforeEach(() => {
+      fileA = path.join(testDir, "a.ts");
+      fileB = path.join(testDir, "b.ts");
+      readFileSpy.mockImplementation((async (filePath: string) =>
+        filePath === fileA
+          ? "export function oldName() {}\n"
+          : "import { oldName } from './a';\noldName();\n") as any);
+    });
+
+    const renameEdits = () => [
+      {
+        filePath: fileA,
+        edits: [
+          {
+            type: "replace" as const,
+            searchText: "function oldName()",
+            replacementText: "function newName()",
+          },
+        ],
+      },
+      {
+        filePath: fileB,
+        edits: [
+          {
+            type: "replace" as const,
+            searchText: "oldName",
+            replacementText: "newName",
+            replaceAllOccurrencesOfSearchText: true,
+          },
+        ],
+      },
+    ];
+
+    it("should apply edits to every file", async () => {
+      const result = await applyMultiFileEditsImpl({ files: renameEdits() });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain(
+        "Successfully applied 2 edit operations across 2 files"
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(fileA),
+        "export function newName() {}\n",
+        "utf-8"
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(fileB),
+        "import { newName } from './a';\nnewName();\n",
+        "utf-8"
+      );
+      expect(result.result.fileResults[1].changedLineRanges).toEqual([
+        { startLine: 1, endLine: 1 },
+        { startLine: 2, endLine: 2 },
+      ]);
+    });
+
+    it("should not write any file if edits of one file fail", async () => {
+      const files = renameEdits();
+      files[1].edits[0].searchText = "missingName";
+
+      const result = await applyMultiFileEditsImpl({ files });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "1 of 2 files could not be edited"
+      );
+      expect(result.result.fileResults).toEqual([
+        expect.objectContaining({
+          filePath: fileB,
+          operationResults: [expect.objectContaining({ operationIndex: 0 })],
+        }),
+      ]);
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should not write any file if one file does not exist", async () => {
+      existsSyncSpy.mockImplementation((p) => p !== fileB);
+
+      const result = await applyMultiFileEditsImpl({ files: renameEdits() });
+
+      expect(result.success).toBe(false);
+      expect(result.result.fileResults[0].message).toContain("does not exist");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject files listed more than once", async () => {
+      const files = renameEdits();
+      files[1].filePath = fileA;
+
+      const result = await applyMultiFileEditsImpl({ files });
+
+      expect(result.success).toBe(false);
+      expect(result.result.fileResults[0].message).toContain(
+        "is listed more than once"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject the same file listed through a symbolic link", async () => {
+      const linkPath = path.join(path.dirname(fileA), "link_to_a.ts");
+      realpathSpy.mockImplementation((async (p: string) =>
+        p === linkPath ? fileA : p) as any);
+      const files = renameEdits();
+      files[1].filePath = linkPath;
+
+      const result = await applyMultiFileEditsImpl({ files });
+      realpathSpy.mockImplementation(originalRealpath);
+
+      expect(result.success).toBe(false);
+      expect(result.result.fileResults[0].message).toContain(
+        "is listed more than once"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should restore written files if a later write fails", async () => {
+      writeFileSpy.mockImplementation((async (
+        filePath: string,
+        data: string
+      ) => {
+        if (isTempFileFor(filePath, fileB) && data.includes("newName")) {
+          throw new Error("disk full");
+        }
+      }) as any);
+
+      const result = await applyMultiFileEditsImpl({ files: renameEdits() });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "Writing files failed (disk full)"
+      );
+      expect(result.result.message).toContain("restored");
+      expect(writeFileSpy).toHaveBeenLastCalledWith(
+        tempFileFor(fileA),
+        "export function oldName() {}\n",
+        "utf-8"
+      );
+      expect(renameSpy).not.toHaveBeenCalledWith(expect.anything(), fileB);
+    });
+
+    it("should report files that could not be restored", async () => {
+      writeFileSpy.mockImplementation((async (
+        filePath: string,
+        data: string
+      ) => {
+        if (isTempFileFor(filePath, fileB) || data.includes("oldName")) {
+          throw new Error("disk full");
+        }
+      }) as any);
+
+      const result = await applyMultiFileEditsImpl({ files: renameEdits() });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        `could not be restored to their original content: ${fileA}`
+      );
+    });
+
+    it("should return diffs without writing on dry run", async () => {
+      const result = await applyMultiFileEditsImpl({
+        files: renameEdits(),
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("Dry run");
+      expect(result.result.fileResults[0].diff).toContain(
+        "-export function oldName() {}\n+export function newName() {}"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("edit history", () => {
+    beforeEach(async () => {
+      await configureEditHistory({});
+    });
+
+    const replaceDummyContent = () =>
+      replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "content",
+        replacementText: "text",
+      });
+
+    it("should undo the last edit", async () => {
+      await replaceDummyContent();
+      readFileSpy.mockResolvedValue("dummy text");
+
+      const result = await undoLastEditImpl({});
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("Successfully undid edit 1");
+      expect(result.result.filePaths).toEqual([testFilePath]);
+      expect(writeFileSpy).toHaveBeenLastCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.from("dummy content"),
+        "utf-8"
+      );
+    });
+
+    it("should redo an undone edit", async () => {
+      await replaceDummyContent();
+      readFileSpy.mockResolvedValue("dummy text");
+      await undoLastEditImpl({});
+      readFileSpy.mockResolvedValue("dummy content");
+
+      const result = await redoEditImpl({});
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("Successfully redid edit 1");
+      expect(writeFileSpy).toHaveBeenLastCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.from("dummy text"),
+        "utf-8"
+      );
+    });
+
+    it("should not record edits of files too large to keep in history", async () => {
+      readFileSpy.mockResolvedValue("x".repeat(1024 * 1024) + " content");
+
+      const result = await replaceDummyContent();
+
+      expect(result.success).toBe(true);
+      expect((await listEditHistoryImpl({})).result.entries).toEqual([]);
+    });
+
+    it("should not undo if the file changed since the edit", async () => {
+      await replaceDummyContent();
+      readFileSpy.mockResolvedValue("changed elsewhere");
+      writeFileSpy.mockClear();
+
+      const result = await undoLastEditImpl({});
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        `${testFilePath} has changed since the edit was recorded`
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should fail when there is nothing to undo or redo", async () => {
+      const undoResult = await undoLastEditImpl({ filePath: testFilePath });
+      const redoResult = await redoEditImpl({});
+
+      expect(undoResult.success).toBe(false);
+      expect(undoResult.result.message).toContain(
+        `There is no recorded edit of ${testFilePath} to undo`
+      );
+      expect(redoResult.success).toBe(false);
+      expect(redoResult.result.message).toContain(
+        "There is no undone edit to redo"
+      );
+    });
+
+    it("should not record dry runs", async () => {
+      await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "content",
+        replacementText: "text",
+        dryRun: true,
+      });
+
+      const result = await undoLastEditImpl({});
+
+      expect(result.success).toBe(false);
+    });
+
+    it("should undo the most recent edit of the given file", async () => {
+      const otherFilePath = path.join(testDir, "other.txt");
+      await replaceDummyContent();
+      await overwriteFileContentImpl({
+        filePath: otherFilePath,
+        fileContent: "other text",
+      });
+      readFileSpy.mockResolvedValue("dummy text");
+
+      const result = await undoLastEditImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.filePaths).toEqual([testFilePath]);
+      const history = await listEditHistoryImpl({});
+      expect(history.result.entries.map((e) => e.filePaths)).toEqual([
+        [otherFilePath],
+      ]);
+    });
+
+    it("should undo file creation by deleting the file", async () => {
+      const newFilePath = path.join(testDir, "new.txt");
+      existsSyncSpy.mockImplementation((p) => p !== newFilePath);
+      await createFileImpl({ filePath: newFilePath, fileContent: "new" });
+      existsSyncSpy.mockReturnValue(true);
+      readFileSpy.mockResolvedValue("new");
+
+      const result = await undoLastEditImpl({});
+
+      expect(result.success).toBe(true);
+      expect(unlinkSpy).toHaveBeenCalledWith(newFilePath);
+    });
+
+    it("should undo file deletion by restoring its content", async () => {
+      await deleteFileImpl({ filePath: testFilePath });
+      existsSyncSpy.mockImplementation((p) => p !== testFilePath);
+
+      const result = await undoLastEditImpl({});
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenLastCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.from("dummy content"),
+        "utf-8"
+      );
+    });
+
+    it("should undo a move by moving the file back", async () => {
+      const newPath = path.join(testDir, "renamed.txt");
+      existsSyncSpy.mockImplementation((p) => p !== newPath);
+      await moveOrRenameFileImpl({
+        sourceFilePath: testFilePath,
+        targetFilePath: newPath,
+      });
+      existsSyncSpy.mockImplementation((p) => p !== testFilePath);
+
+      const result = await undoLastEditImpl({ filePath: newPath });
+
+      expect(result.success).toBe(true);
+      expect(renameSpy).toHaveBeenLastCalledWith(newPath, testFilePath);
+    });
+
+    it("should undo a multi file transaction as a whole", async () => {
+      const otherFilePath = path.join(testDir, "other.txt");
+      await applyMultiFileEditsImpl({
+        files: [testFilePath, otherFilePath].map((filePath) => ({
+          filePath,
+          edits: [
+            {
+              type: "replace" as const,
+              searchText: "content",
+              replacementText: "text",
+            },
+          ],
+        })),
+      });
+      readFileSpy.mockResolvedValue("dummy text");
+
+      const result = await undoLastEditImpl({ filePath: otherFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.filePaths).toEqual([testFilePath, otherFilePath]);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.from("dummy content"),
+        "utf-8"
+      );
+      expect(writeFileSpy).toHaveBeenLastCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.from("dummy content"),
+        "utf-8"
+      );
+    });
+
+    it("should list edits and undone edits most recent first", async () => {
+      await replaceDummyContent();
+      await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "!",
+      });
+      await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "dummy content!",
+      });
+      readFileSpy.mockResolvedValue("dummy content!");
+      await undoLastEditImpl({});
+
+      const result = await listEditHistoryImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain(
+        "Found 2 edits that can be undone and 1 undone edit that can be redone"
+      );
+      expect(result.result.entries.map((e) => e.id)).toEqual([2, 1]);
+      expect(result.result.undoneEntries).toEqual([
+        expect.objectContaining({
+          id: 3,
+          description: `Successfully replaced entire content in ${testFilePath}.`,
+          filePaths: [testFilePath],
+        }),
+      ]);
+    });
+
+    it("should discard undone edits of a file when it is edited again", async () => {
+      await replaceDummyContent();
+      readFileSpy.mockResolvedValue("dummy text");
+      await undoLastEditImpl({});
+      readFileSpy.mockResolvedValue("dummy content");
+      await replaceDummyContent();
+
+      const result = await redoEditImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("There is no undone edit");
+    });
+
+    it("should keep only the configured number of edits", async () => {
+      await configureEditHistory({ depth: 1 });
+      await replaceDummyContent();
+      await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "!",
+      });
+
+      const result = await listEditHistoryImpl({});
+
+      expect(result.result.entries.map((e) => e.id)).toEqual([2]);
+    });
+
+    it("should persist history to and load it from the state directory", async () => {
+      const stateDir = path.join(testDir, "state");
+      const historyFile = path.join(stateDir, "edit_history.json");
+      const mkdirSpy = jest
+        .spyOn(fsPromises, "mkdir")
+        .mockResolvedValue(undefined);
+      try {
+        existsSyncSpy.mockImplementation((p) => p !== historyFile);
+        await configureEditHistory({ stateDir });
+        existsSyncSpy.mockReturnValue(true);
+        await replaceDummyContent();
+
+        const saveCall = writeFileSpy.mock.calls.find((c) =>
+          isTempFileFor(c[0] as string, historyFile)
+        );
+        expect(mkdirSpy).toHaveBeenCalledWith(stateDir, { recursive: true });
+        expect(JSON.parse(saveCall[1] as string)).toEqual(
+          expect.objectContaining({ nextEntryId: 2, undoneEntries: [] })
+        );
+
+        readFileSpy.mockResolvedValue(saveCall[1] as string);
+        await configureEditHistory({ stateDir });
+        const result = await listEditHistoryImpl({});
+
+        expect(result.result.entries.map((e) => e.id)).toEqual([1]);
+      } finally {
+        mkdirSpy.mockRestore();
+      }
+    });
+  });
+
+  describe("content hash guards", () => {
+    const hashOf = (text: string) =>
+      crypto.createHash("sha256").update(text, "utf-8").digest("hex");
+
+    it("should return the content hash when reading and searching", async () => {
+      const readResult = await readFileImpl({ filePath: testFilePath });
+      const searchResult = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "dummy",
+      });
+
+      expect(readResult.result.contentHash).toBe(hashOf("dummy content"));
+      expect(searchResult.result.contentHash).toBe(hashOf("dummy content"));
+    });
+
+    it("should edit when expectedHash matches and return the new hash", async () => {
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "content",
+        replacementText: "text",
+        expectedHash: hashOf("dummy content"),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.contentHash).toBe(hashOf("dummy text"));
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "dummy text",
+        "utf-8"
+      );
+    });
+
+    it("should reject the edit with a fresh diff when expectedHash does not match", async () => {
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "content",
+        replacementText: "text",
+        expectedHash: hashOf("older content"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        `File ${testFilePath} has changed since you read it`
+      );
+      expect(result.result.contentHash).toBe(hashOf("dummy content"));
+      expect(result.result.diff).toContain("-dummy content");
+      expect(result.result.diff).toContain("+dummy text");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should report a stale file as changed even when searchText is no longer found", async () => {
+      const replaced = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "older",
+        replacementText: "newer",
+        expectedHash: hashOf("older content"),
+      });
+      const inserted = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "more",
+        anchorText: "older",
+        positionRelativeToAnchorText: "after",
+        expectedHash: hashOf("older content"),
+      });
+
+      for (const result of [replaced, inserted]) {
+        expect(result.success).toBe(false);
+        expect(result.result.message).toContain(
+          "has changed since you read it"
+        );
+        expect(result.result.contentHash).toBe(hashOf("dummy content"));
+        expect(result.result.diff).toBeUndefined();
+      }
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject the edit if the file changes while it is being made", async () => {
+      readFileSpy
+        .mockResolvedValueOnce("dummy content")
+        .mockResolvedValueOnce("dummy content changed");
+
+      const result = await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "more",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "was changed by another process while this edit was being made"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject a transaction if expectedHash of one file does not match", async () => {
+      const otherFilePath = path.join(testDir, "other.txt");
+      const result = await applyMultiFileEditsImpl({
+        files: [
+          { filePath: testFilePath, expectedHash: hashOf("dummy content") },
+          { filePath: otherFilePath, expectedHash: hashOf("older content") },
+        ].map((file) => ({
+          ...file,
+          edits: [
+            {
+              type: "replace" as const,
+              searchText: "content",
+              replacementText: "text",
+            },
+          ],
+        })),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.fileResults).toEqual([
+        expect.objectContaining({
+          filePath: otherFilePath,
+          message: expect.stringContaining("has changed since you read it"),
+          contentHash: hashOf("dummy content"),
+        }),
+      ]);
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should not delete a file whose expectedHash does not match", async () => {
+      const result = await deleteFileImpl({
+        filePath: testFilePath,
+        expectedHash: hashOf("older content"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("has changed since you read it");
+      expect(unlinkSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("atomic writes", () => {
+    afterEach(() => {
+      realpathSpy.mockImplementation(originalRealpath);
+    });
+
+    it("should write to a synced temp file with the original mode and owner and rename it over the file", async () => {
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "new content",
+      });
+
+      expect(result.success).toBe(true);
+      const tempPath = writeFileSpy.mock.calls[0][0] as string;
+      expect(isTempFileFor(tempPath, testFilePath)).toBe(true);
+      expect(openSpy).toHaveBeenCalledWith(tempPath, "r+");
+      expect(mockFileHandle.sync).toHaveBeenCalled();
+      expect(chmodSpy).toHaveBeenCalledWith(tempPath, 0o644);
+      expect(chownSpy).toHaveBeenCalledWith(tempPath, 1000, 1000);
+      expect(renameSpy).toHaveBeenCalledWith(tempPath, testFilePath);
+    });
+
+    it("should not change the mode of newly created files", async () => {
+      const newFilePath = path.join(testDir, "new.txt");
+      existsSyncSpy.mockImplementation((p) => p !== newFilePath);
+      statSpy.mockRejectedValue(
+        Object.assign(new Error("not found"), { code: "ENOENT" })
+      );
+
+      const result = await createFileImpl({
+        filePath: newFilePath,
+        fileContent: "new",
+      });
+
+      expect(result.success).toBe(true);
+      expect(chmodSpy).not.toHaveBeenCalled();
+      expect(renameSpy).toHaveBeenCalledWith(
+        tempFileFor(newFilePath),
+        newFilePath
+      );
+    });
+
+    it("should ignore failures to preserve the owner", async () => {
+      chownSpy.mockRejectedValue(new Error("EPERM"));
+
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "new content",
+      });
+
+      expect(result.success).toBe(true);
+      expect(renameSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        testFilePath
+      );
+    });
+
+    it("should remove the temp file and leave the file untouched if writing fails", async () => {
+      renameSpy.mockRejectedValue(new Error("disk full"));
+
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "new content",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("disk full");
+      expect(unlinkSpy).toHaveBeenCalledWith(tempFileFor(testFilePath));
+      expect(unlinkSpy).not.toHaveBeenCalledWith(testFilePath);
+    });
+
+    it("should write through symbolic links", async () => {
+      const targetPath = path.join(testDir, "target.txt");
+      realpathSpy.mockImplementation((async (p: string) => {
+        if (p === testFilePath) return targetPath;
+        return p;
+      }) as any);
+
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "new content",
+      });
+
+      expect(result.success).toBe(true);
+      expect(renameSpy).toHaveBeenCalledWith(
+        tempFileFor(targetPath),
+        targetPath
+      );
+    });
+  });
+
+  describe("line ending normalization", () => {
+    it("should convert replacement text to the file's line endings", async () => {
+      readFileSpy.mockResolvedValue("one\r\ntwo\r\nthree\r\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "two",
+        replacementText: "2a\n2b",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.warning).toBeUndefined();
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\r\n2a\r\n2b\r\nthree\r\n",
+        "utf-8"
+      );
+    });
+
+    it("should write text verbatim when normalizeLineEndings is false", async () => {
+      readFileSpy.mockResolvedValue("one\r\ntwo\r\nthree\r\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "two",
+        replacementText: "2a\n2b",
+        normalizeLineEndings: false,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\r\n2a\n2b\r\nthree\r\n",
+        "utf-8"
+      );
+    });
+
+    it("should use the most common line ending and warn about mixed line endings", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\r\nthree\r\n");
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "x\ny",
+        anchorText: "two",
+        positionRelativeToAnchorText: "after",
+        addNewLine: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.warning).toContain(
+        `File ${testFilePath} already contained mixed line endings`
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\ntwo\r\nx\r\ny\r\nthree\r\n",
+        "utf-8"
+      );
+    });
+
+    it("should convert appended and overwritten text", async () => {
+      readFileSpy.mockResolvedValue("line1\r\nline2");
+
+      await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "x\ny",
+        addNewLineBeforeAppending: true,
+      });
+      await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "a\nb\n",
+      });
+
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "line1\r\nline2\r\nx\r\ny",
+        "utf-8"
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "a\r\nb\r\n",
+        "utf-8"
+      );
+    });
+
+    it("should keep text verbatim in files without line endings", async () => {
+      readFileSpy.mockResolvedValue("single line");
+
+      await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "single",
+        replacementText: "first\r\nsecond",
+      });
+
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "first\r\nsecond line",
+        "utf-8"
+      );
+    });
+
+    it("should convert text of every operation in apply_edits", async () => {
+      readFileSpy.mockResolvedValue("one\r\ntwo\r\n");
+
+      const result = await applyEditsImpl({
+        filePath: testFilePath,
+        edits: [
+          { type: "replace", searchText: "one", replacementText: "1\n1" },
+          {
+            type: "insert",
+            textToBeInserted: "\n2",
+            anchorText: "two",
+            positionRelativeToAnchorText: "after",
+          },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "1\r\n1\r\ntwo\r\n2\r\n",
+        "utf-8"
+      );
+    });
+  });
+
+  describe("text encodings", () => {
+    const utf16le = (text: string) => Buffer.from(text, "utf16le");
+    const utf16be = (text: string) => Buffer.from(text, "utf16le").swap16();
+
+    it("should detect UTF-16 files as text", async () => {
+      const bytes = utf16le("hello world");
+      openSpy.mockResolvedValue({
+        read: jest.fn().mockImplementation(async (buffer: Uint8Array) => {
+          buffer.set(bytes);
+          return { bytesRead: bytes.length, buffer };
+        }),
+        close: jest.fn().mockResolvedValue(undefined),
+      } as any);
+      readFileSpy.mockResolvedValue(bytes);
+
+      const result = await readFileImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.content).toBe("1 | hello world");
+      expect(result.result.encoding).toBe("utf-16le");
+      expect(result.result.bom).toBe(false);
+    });
+
+    it("should detect big endian UTF-16 without a BOM", async () => {
+      readFileSpy.mockResolvedValue(utf16be("hello world"));
+
+      const result = await readFileImpl({ filePath: testFilePath });
+
+      expect(result.result.content).toBe("1 | hello world");
+      expect(result.result.encoding).toBe("utf-16be");
+    });
+
+    it("should preserve UTF-16 encoding and BOM on write", async () => {
+      const bom = Buffer.from([0xff, 0xfe]);
+      readFileSpy.mockResolvedValue(
+        Buffer.concat([bom, utf16le("héllo\r\nworld")])
+      );
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "world",
+        replacementText: "there",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.concat([bom, utf16le("héllo\r\nthere")]),
+        "utf-8"
+      );
+    });
+
+    it("should strip the UTF-8 BOM from content and keep it on write", async () => {
+      const bom = Buffer.from([0xef, 0xbb, 0xbf]);
+      readFileSpy.mockResolvedValue(Buffer.concat([bom, Buffer.from("abc")]));
+
+      const readResult = await readFileImpl({
+        filePath: testFilePath,
+        includeLineNumbers: false,
+      });
+      await appendTextToFileImpl({
+        filePath: testFilePath,
+        appendText: "def",
+      });
+
+      expect(readResult.result.content).toBe("abc");
+      expect(readResult.result.bom).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.concat([bom, Buffer.from("abcdef")]),
+        "utf-8"
+      );
+    });
+
+    it("should fall back to Latin-1 for files that are not valid UTF-8", async () => {
+      readFileSpy.mockResolvedValue(Buffer.from("café au lait", "latin1"));
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "café",
+        replacementText: "thé",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.from("thé au lait", "latin1"),
+        "utf-8"
+      );
+    });
+
+    it("should reject characters the file's encoding can not represent", async () => {
+      readFileSpy.mockResolvedValue(Buffer.from("café au lait", "latin1"));
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "lait",
+        replacementText: "lait ☕",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "contains the character '☕' which can not be represented in the file's latin1 encoding"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should use the encoding parameter instead of detection", async () => {
+      readFileSpy.mockResolvedValue(Buffer.from("café"));
+
+      const result = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "cafÃ©",
+        encoding: "latin1",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.matches).toHaveLength(1);
+    });
+
+    it("should create UTF-16 files with a BOM", async () => {
+      existsSyncSpy.mockImplementation((p) => p !== testFilePath);
+
+      const result = await createFileImpl({
+        filePath: testFilePath,
+        fileContent: "hi",
+        encoding: "utf-16be",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be("hi")]),
+        "utf-8"
+      );
+    });
+  });
+
+  describe("indentation", () => {
+    it("should re-base replacement text to the indentation of the match", async () => {
+      readFileSpy.mockResolvedValue(
+        "class A {\n    foo() {\n        old();\n    }\n}\n"
+      );
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "old();",
+        replacementText: "if (x) {\n  a();\n}",
+        indentation: "auto",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "class A {\n    foo() {\n        if (x) {\n            a();\n        }\n    }\n}\n",
+        "utf-8"
+      );
+    });
+
+    it("should convert spaces to the tabs used in the file", async () => {
+      readFileSpy.mockResolvedValue(
+        "function f() {\n\tif (y) {\n\t\tcall();\n\t}\n}\n"
+      );
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "call();",
+        replacementText: "for (;;) {\n    step();\n}",
+        indentation: "auto",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "function f() {\n\tif (y) {\n\t\tfor (;;) {\n\t\t\tstep();\n\t\t}\n\t}\n}\n",
+        "utf-8"
+      );
+    });
+
+    it("should keep the anchor's indentation when inserting before it", async () => {
+      readFileSpy.mockResolvedValue("def f():\n    return 1\n");
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "x = 1\ny = 2",
+        anchorText: "return 1",
+        positionRelativeToAnchorText: "before",
+        addNewLine: true,
+        indentation: "auto",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "def f():\n    x = 1\n    y = 2\n    return 1\n",
+        "utf-8"
+      );
+    });
+
+    it("should indent text inserted on a new line after the anchor", async () => {
+      readFileSpy.mockResolvedValue("if a:\n    pass\n");
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "if b:\n  go()",
+        anchorText: "pass",
+        positionRelativeToAnchorText: "after",
+        addNewLine: true,
+        indentation: "auto",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "if a:\n    pass\n    if b:\n        go()\n",
+        "utf-8"
+      );
+    });
+
+    it("should re-indent moved lines to the anchor's indentation", async () => {
+      readFileSpy.mockResolvedValue("a:\n  b: 1\n  c:\n    d: 2\n");
+
+      const result = await moveTextImpl({
+        filePath: testFilePath,
+        textToBeMoved: "b: 1",
+        anchorText: "d: 2",
+        positionRelativeToAnchorText: "after",
+        indentation: "auto",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "a:\n  c:\n    d: 2\n    b: 1\n",
+        "utf-8"
+      );
+    });
+
+    it("should write text verbatim by default", async () => {
+      readFileSpy.mockResolvedValue("    old();\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "old();",
+        replacementText: "a();\nb();",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "    a();\nb();\n",
+        "utf-8"
+      );
+    });
+  });
+
+  describe("line range editing", () => {
+    it("should replace the content of a line range", async () => {
+      readFileSpy.mockResolvedValue("one\r\ntwo\r\nthree\r\nfour\r\n");
+
+      const result = await replaceLinesImpl({
+        filePath: testFilePath,
+        startLine: 2,
+        endLine: 3,
+        replacementText: "2\n3",
+        expectedContent: "two\n  three",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toBe(
+        `Successfully replaced lines 2-3 in ${testFilePath}.`
+      );
+      expect(result.result.changedLineRanges).toEqual([
+        { startLine: 2, endLine: 3 },
+      ]);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\r\n2\r\n3\r\nfour\r\n",
+        "utf-8"
+      );
+    });
+
+    it("should reject stale line numbers and return the actual content", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\nthree\n");
+
+      const result = await replaceLinesImpl({
+        filePath: testFilePath,
+        startLine: 2,
+        endLine: 2,
+        replacementText: "2",
+        expectedContent: "three",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "Content of lines 2-2 does not match expectedContent"
+      );
+      expect(result.result.actualContent).toBe("two");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject line ranges outside of the file", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\n");
+
+      const result = await deleteLinesImpl({
+        filePath: testFilePath,
+        startLine: 3,
+        endLine: 4,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "Invalid line range 3-4. File has 2 lines"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject an endLine past the end of the file", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\nthree");
+
+      const result = await replaceLinesImpl({
+        filePath: testFilePath,
+        startLine: 2,
+        endLine: 99,
+        replacementText: "2",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "Invalid line range 2-99. File has 3 lines"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should delete lines including their line endings", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\nthree");
+
+      await deleteLinesImpl({
+        filePath: testFilePath,
+        startLine: 1,
+        endLine: 2,
+      });
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "three",
+        "utf-8"
+      );
+
+      await deleteLinesImpl({
+        filePath: testFilePath,
+        startLine: 3,
+        endLine: 3,
+      });
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\ntwo",
+        "utf-8"
+      );
+    });
+
+    it("should insert text before a line", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo\n");
+
+      const result = await insertAtLineImpl({
+        filePath: testFilePath,
+        line: 2,
+        textToBeInserted: "1.5",
+        expectedContent: "two",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toBe(
+        `Successfully inserted provided text at line 2 in ${testFilePath}.`
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\n1.5\ntwo\n",
+        "utf-8"
+      );
+    });
+
+    it("should insert text after the last line", async () => {
+      readFileSpy.mockResolvedValue("one\ntwo");
+
+      const result = await insertAtLineImpl({
+        filePath: testFilePath,
+        line: 3,
+        textToBeInserted: "three",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "one\ntwo\nthree",
+        "utf-8"
+      );
+
+      const invalid = await insertAtLineImpl({
+        filePath: testFilePath,
+        line: 5,
+        textToBeInserted: "five",
+      });
+      expect(invalid.success).toBe(false);
+      expect(invalid.result.message).toContain(
+        "text can be inserted at lines 1-3"
+      );
+    });
+  });
+
+  describe("regex mode", () => {
+    it("should replace all matches using capture groups", async () => {
+      readFileSpy.mockResolvedValue("foo(1);\nx = foo( 2 );\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "foo\\((\\s*)(\\d)",
+        replacementText: "bar($1$2",
+        replaceAllOccurrencesOfSearchText: true,
+        mode: "regex",
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toBe(
+        `Successfully replaced 2 occurrences in ${testFilePath}.`
+      );
+      expect(result.result.substitutions).toEqual([
+        { line: 1, matchedText: "foo(1", replacementText: "bar(1" },
+        { line: 2, matchedText: "foo( 2", replacementText: "bar( 2" },
+      ]);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "bar(1);\nx = bar( 2 );\n",
+        "utf-8"
+      );
+    });
+
+    it("should support flags, named groups and text outside the BMP", async () => {
+      readFileSpy.mockResolvedValue("😀 Hello $ hello");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "(?<word>hello)",
+        replacementText: "<$<word>>$$",
+        replaceAllOccurrencesOfSearchText: true,
+        mode: "regex",
+        regexFlags: "i",
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "😀 <Hello>$ $ <hello>$",
+        "utf-8"
+      );
+    });
+
+    it("should require a single match unless all matches are replaced", async () => {
+      readFileSpy.mockResolvedValue("a1 a2 a3");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "a(\\d)",
+        replacementText: "b$1",
+        mode: "regex",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("searchText matches 3 times");
+      expect(result.result.substitutions).toHaveLength(3);
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should report invalid regular expressions", async () => {
+      readFileSpy.mockResolvedValue("foo(");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "foo(",
+        replacementText: "bar(",
+        mode: "regex",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "searchText is not a valid regular expression"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject overly long regular expressions", async () => {
+      readFileSpy.mockResolvedValue("foo");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "a".repeat(1001),
+        replacementText: "b",
+        mode: "regex",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "regular expressions are limited to 1000 characters"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should abort regular expressions that take too long", async () => {
+      readFileSpy.mockResolvedValue("a".repeat(40) + "c");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "(a+)+b",
+        replacementText: "b",
+        mode: "regex",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("was aborted");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should stop when matches exceed maxMatches", async () => {
+      readFileSpy.mockResolvedValue("x x x x");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "x",
+        replacementText: "y",
+        replaceAllOccurrencesOfSearchText: true,
+        mode: "regex",
+        maxMatches: 3,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "searchText matches more than maxMatches (3) times"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should preview substitutions in a dry run", async () => {
+      readFileSpy.mockResolvedValue("let a = 1;\nlet b = 2;\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "^let",
+        replacementText: "const",
+        replaceAllOccurrencesOfSearchText: true,
+        mode: "regex",
+        regexFlags: "m",
+        dryRun: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.substitutions).toEqual([
+        { line: 1, matchedText: "let", replacementText: "const" },
+        { line: 2, matchedText: "let", replacementText: "const" },
+      ]);
+      expect(result.result.diff).toContain("+const a = 1;");
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("whole word and case insensitive matching", () => {
+    it("should only replace whole words with matchWholeWord", async () => {
+      readFileSpy.mockResolvedValue("const id = width + valid(id);");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "id",
+        replacementText: "key",
+        replaceAllOccurrencesOfSearchText: true,
+        matchWholeWord: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "const key = width + valid(key);",
+        "utf-8"
+      );
+    });
+
+    it("should suggest whole words when no whole word matches", async () => {
+      readFileSpy.mockResolvedValue("const width = 1;");
+
+      const result = await deleteMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "id",
+        matchWholeWord: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.SuggestedParameterValues).toMatchObject([
+        { searchText: "width" },
+      ]);
+    });
+
+    it("should ignore case with caseSensitive false", async () => {
+      readFileSpy.mockResolvedValue("function Foo() {}\n");
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "// comment",
+        anchorText: "FUNCTION foo()",
+        positionRelativeToAnchorText: "before",
+        addNewLine: true,
+        caseSensitive: false,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "// comment\nfunction Foo() {}\n",
+        "utf-8"
+      );
+    });
+
+    it("should disambiguate suggestions that differ only in case", async () => {
+      readFileSpy.mockResolvedValue("a(Foo); b(foo);");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "foo",
+        replacementText: "bar",
+        caseSensitive: false,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("Multiple matches found");
+      expect(result.result.SuggestedParameterValues).toMatchObject([
+        { searchText: "a(Foo);" },
+        { searchText: "b(foo);" },
+      ]);
+    });
+
+    it("should apply the options to search_in_file and regex mode", async () => {
+      readFileSpy.mockResolvedValue("ID id width");
+
+      const search = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "id",
+        matchWholeWord: true,
+        caseSensitive: false,
+      });
+      expect(search.result.matches.map((m) => m.matchedText)).toEqual([
+        "ID",
+        "id",
+      ]);
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "i(d)",
+        replacementText: "k$1",
+        replaceAllOccurrencesOfSearchText: true,
+        mode: "regex",
+        matchWholeWord: true,
+        caseSensitive: false,
+      });
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "kD kd width",
+        "utf-8"
+      );
+    });
+  });
+
+  describe("occurrence selection", () => {
+    const repetitiveContent = "call();\nother();\ncall();\nother();\ncall();\n";
+
+    it("should cap suggestions for many duplicate anchors and moved texts", async () => {
+      readFileSpy.mockResolvedValue("call();\nother();\n".repeat(400));
+
+      const inserted = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "log();",
+        anchorText: "call();",
+        positionRelativeToAnchorText: "after",
+      });
+      const moved = await moveTextImpl({
+        filePath: testFilePath,
+        textToBeMoved: "other();",
+        anchorText: "call();",
+        positionRelativeToAnchorText: "before",
+        anchorOccurrenceIndex: 1,
+      });
+
+      for (const result of [inserted, moved]) {
+        expect(result.success).toBe(false);
+        expect(result.result.SuggestedParameterValues).toHaveLength(3);
+        expect(result.result.message).toContain("400 matches in total");
+      }
+      expect(inserted.result.message).toContain("Matches are on lines 1, 3, 5");
+      expect(moved.result.message).toContain("Matches are on lines 2, 4, 6");
+    });
+
+    it("should report the line of each match when multiple matches are found", async () => {
+      readFileSpy.mockResolvedValue(repetitiveContent);
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "call();",
+        replacementText: "done();",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("Multiple matches found");
+      expect(result.result.message).toContain(
+        "Matches are on lines 1, 3, 5 (in order of occurrence)"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should replace the match selected by occurrenceIndex", async () => {
+      readFileSpy.mockResolvedValue(repetitiveContent);
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "call();",
+        replacementText: "done();",
+        occurrenceIndex: 2,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "call();\nother();\ndone();\nother();\ncall();\n",
+        "utf-8"
+      );
+    });
+
+    it("should reject an occurrenceIndex beyond the number of matches", async () => {
+      readFileSpy.mockResolvedValue(repetitiveContent);
+
+      const result = await deleteMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "call();",
+        occurrenceIndex: 4,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "occurrenceIndex is 4 but only 3 matches were found"
+      );
+      expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    it("should insert relative to the anchor closest to nearLine", async () => {
+      readFileSpy.mockResolvedValue(repetitiveContent);
+
+      const result = await insertTextImpl({
+        filePath: testFilePath,
+        textToBeInserted: "log();",
+        anchorText: "call();",
+        positionRelativeToAnchorText: "after",
+        addNewLine: true,
+        nearLine: 4,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "call();\nother();\ncall();\nlog();\nother();\ncall();\n",
+        "utf-8"
+      );
+    });
+
+    it("should select the moved text and the anchor independently", async () => {
+      readFileSpy.mockResolvedValue(repetitiveContent);
+
+      const result = await moveTextImpl({
+        filePath: testFilePath,
+        textToBeMoved: "other();",
+        anchorText: "call();",
+        positionRelativeToAnchorText: "after",
+        nearLine: 2,
+        anchorOccurrenceIndex: 3,
+      });
+
+      expect(result.success).toBe(true);
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "call();\ncall();\nother();\ncall();\nother();\n",
+        "utf-8"
+      );
+    });
+
+    it("should name the anchor parameters when the anchor of a move is ambiguous", async () => {
+      readFileSpy.mockResolvedValue(repetitiveContent);
+
+      const result = await moveTextImpl({
+        filePath: testFilePath,
+        textToBeMoved: "other();",
+        anchorText: "call();",
+        positionRelativeToAnchorText: "after",
+        occurrenceIndex: 1,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain(
+        "re-try with anchorOccurrenceIndex"
+      );
+    });
+  });
+
+  describe("suggestion details", () => {
+    it("should report lines, similarity, match type and diff of ambiguous matches", async () => {
+      readFileSpy.mockResolvedValue("call();\nother();\ncall();\n");
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "call();",
+        replacementText: "log();",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.SuggestedParameterValues).toEqual([
+        {
+          searchText: "call();\nother();",
+          startLine: 1,
+          endLine: 2,
+          similarity: 0.47,
+          matchType: "exact",
+          diff: "call();{+ other();+}",
+        },
+        {
+          searchText: "other();\ncall();\n",
+          startLine: 2,
+          endLine: 3,
+          similarity: 0.47,
+          matchType: "exact",
+          diff: "{+other(); +}call();",
+        },
+      ]);
+    });
+
+    it("should report how a fuzzy suggestion differs from the search text", async () => {
+      readFileSpy.mockResolvedValue(
+        "function main() {\n  const total = computeTotal(items);\n  return total;\n}\n"
+      );
+
+      const result = await replaceMatchingTextImpl({
+        filePath: testFilePath,
+        searchText: "const total = computeTotals(items);\n  return total;",
+        replacementText: "return computeTotal(items);",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.SuggestedParameterValues).toEqual([
+        {
+          searchText: "const total = computeTotal(items);\n  return total;",
+          startLine: 2,
+          endLine: 3,
+          similarity: 0.98,
+          matchType: "combined",
+          diff: "const total = computeTotal[-s-](items); return total;",
+        },
+      ]);
+    });
+
+    it("should ignore case in similarity when matching case insensitively", async () => {
+      readFileSpy.mockResolvedValue("const Value = 1;\nconst other = 2;\n");
+
+      const caseInsensitive = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "const VALUE = 2;",
+        caseSensitive: false,
+      });
+      const caseSensitive = await searchInFileImpl({
+        filePath: testFilePath,
+        searchText: "const VALUE = 2;",
+      });
+
+      const [insensitiveSuggestion] =
+        caseInsensitive.result.SuggestedParameterValues!;
+      const [sensitiveSuggestion] =
+        caseSensitive.result.SuggestedParameterValues!;
+      expect(insensitiveSuggestion).toMatchObject({
+        searchText: "const Value = 1;",
+        startLine: 1,
+        endLine: 1,
+        diff: "const V[-ALUE-]{+alue+} = [-2-]{+1+};",
+      });
+      expect(insensitiveSuggestion.similarity).toBeGreaterThan(
+        sensitiveSuggestion.similarity as number
+      );
+    });
+  });
+
+  describe("listDirectoryImpl", () => {
+    const mockDirent = (
+      name: string,
+      isDirectory = false,
+      isSymbolicLink = false
+    ) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory && !isSymbolicLink,
+      isSymbolicLink: () => isSymbolicLink,
+    });
+    const modifiedTime = new Date("2024-01-02T03:04:05.000Z");
+
+    beforeEach(() => {
+      statSpy.mockImplementation((async (entryPath: string) => {
+        const isDirectory = !path.relative(testDir, entryPath).includes(".");
+        return {
+          size: isDirectory ? 0 : path.basename(entryPath).length,
+          mtime: modifiedTime,
+          isDirectory: () => isDirectory,
+        };
+      }) as any);
+      readdirSpy.mockImplementation((async (dirPath: string) => {
+        const relativeDir = path
+          .relative(testDir, dirPath)
+          .split(path.sep)
+          .join("/");
+        const tree: Record<string, any[]> = {
+          "": [
+            mockDirent("src", true),
+            mockDirent("node_modules", true),
+            mockDirent("dist", true),
+            mockDirent(".gitignore"),
+            mockDirent("notes.md"),
+            mockDirent("logo.png"),
+          ],
+          src: [
+            mockDirent("a.ts"),
+            mockDirent("debug.log"),
+            mockDirent("lib", true),
+            mockDirent(".gitignore"),
+          ],
+          "src/lib": [mockDirent("b.ts"), mockDirent("keep.log")],
+          dist: [mockDirent("out.js")],
+          node_modules: [mockDirent("dep.ts")],
+        };
+        return tree[relativeDir] ?? [];
+      }) as any);
+      readFileSpy.mockImplementation((async (filePath: string) => {
+        const gitignores: Record<string, string> = {
+          ".gitignore": "# build output\n/dist/\n*.log\n",
+          "src/.gitignore": "!lib/keep.log\n",
+        };
+        const relativePath = path
+          .relative(testDir, filePath)
+          .split(path.sep)
+          .join("/");
+        if (!(relativePath in gitignores)) throw new Error("ENOENT");
+        return gitignores[relativePath];
+      }) as any);
+    });
+
+    it("should list direct children with metadata by default", async () => {
+      const result = await listDirectoryImpl({ directoryPath: testDir });
+
+      expect(result.success).toBe(true);
+      expect(result.result.entries).toEqual([
+        {
+          path: ".gitignore",
+          type: "file",
+          size: 10,
+          modifiedTime: modifiedTime.toISOString(),
+          isBinary: false,
+        },
+        {
+          path: "logo.png",
+          type: "file",
+          size: 8,
+          modifiedTime: modifiedTime.toISOString(),
+          isBinary: true,
+        },
+        {
+          path: "notes.md",
+          type: "file",
+          size: 8,
+          modifiedTime: modifiedTime.toISOString(),
+          isBinary: false,
+        },
+        {
+          path: "src",
+          type: "directory",
+          modifiedTime: modifiedTime.toISOString(),
+        },
+      ]);
+      expect(result.result.truncated).toBe(false);
+      expect(result.result.message).toContain("Listed 4 entries");
+    });
+
+    it("should list recursively up to depth honoring .gitignore files", async () => {
+      const result = await listDirectoryImpl({
+        directoryPath: testDir,
+        depth: 3,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.tree).toBe(
+        [
+          ".gitignore (10 bytes)",
+          "logo.png (8 bytes, binary)",
+          "notes.md (8 bytes)",
+          "src/",
+          "  .gitignore (10 bytes)",
+          "  a.ts (4 bytes)",
+          "  lib/",
+          "    b.ts (4 bytes)",
+          "    keep.log (8 bytes)",
+        ].join("\n")
+      );
+    });
+
+    it("should list ignored entries when respectGitignore is false", async () => {
+      const result = await listDirectoryImpl({
+        directoryPath: testDir,
+        depth: 2,
+        respectGitignore: false,
+      });
+
+      expect(result.result.entries!.map((e) => e.path)).toEqual([
+        ".gitignore",
+        "dist",
+        "logo.png",
+        "notes.md",
+        "src",
+        "dist/out.js",
+        "src/.gitignore",
+        "src/a.ts",
+        "src/debug.log",
+        "src/lib",
+      ]);
+    });
+
+    it("should honor include and exclude globs", async () => {
+      const result = await listDirectoryImpl({
+        directoryPath: testDir,
+        depth: 3,
+        includeGlobs: ["**/*.ts"],
+        excludeGlobs: ["node_modules", "lib"],
+      });
+
+      expect(result.result.entries!.map((e) => e.path)).toEqual([
+        "src",
+        "src/a.ts",
+      ]);
+    });
+
+    it("should truncate the listing at maxEntries", async () => {
+      const result = await listDirectoryImpl({
+        directoryPath: testDir,
+        depth: 3,
+        maxEntries: 5,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.entries!.map((e) => e.path)).toEqual([
+        ".gitignore",
+        "logo.png",
+        "notes.md",
+        "src",
+        "src/.gitignore",
+      ]);
+      expect(result.result.truncated).toBe(true);
+      expect(result.result.message).toContain("truncated");
+    });
+
+    it("should list symbolic links and skip entries that can not be read", async () => {
+      readdirSpy.mockImplementation((async (dirPath: string) => {
+        const relativeDir = path.relative(testDir, dirPath);
+        if (relativeDir === "private") throw new Error("EACCES");
+        return relativeDir === ""
+          ? [
+              mockDirent("private", true),
+              mockDirent("current.ts", false, true),
+              mockDirent("gone.ts"),
+            ]
+          : [];
+      }) as any);
+      const originalStat = statSpy.getMockImplementation()!;
+      statSpy.mockImplementation((async (entryPath: string) => {
+        if (entryPath.endsWith("gone.ts")) throw new Error("ENOENT");
+        return (originalStat as any)(entryPath);
+      }) as any);
+      const lstatSpy = jest
+        .spyOn(fsPromises, "lstat")
+        .mockResolvedValue({ mtime: modifiedTime } as any);
+      const readlinkSpy = jest
+        .spyOn(fsPromises, "readlink")
+        .mockResolvedValue("src/a.ts" as any);
+
+      const result = await listDirectoryImpl({
+        directoryPath: testDir,
+        depth: 2,
+      });
+      lstatSpy.mockRestore();
+      readlinkSpy.mockRestore();
+
+      expect(result.success).toBe(true);
+      expect(result.result.entries).toEqual([
+        {
+          path: "current.ts",
+          type: "symlink",
+          modifiedTime: modifiedTime.toISOString(),
+          linkTarget: "src/a.ts",
+        },
+        {
+          path: "private",
+          type: "directory",
+          modifiedTime: modifiedTime.toISOString(),
+        },
+      ]);
+      expect(result.result.tree).toBe("current.ts -> src/a.ts\nprivate/");
+      expect(result.result.message).toContain(
+        "2 entries could not be read and were skipped"
+      );
+    });
+
+    it("should fail if directory does not exist", async () => {
+      existsSyncSpy.mockReturnValue(false);
+
+      const result = await listDirectoryImpl({ directoryPath: testDir });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("does not exist");
+    });
+  });
+
+  describe("path suggestions", () => {
+    const mockDirent = (name: string, isDirectory = false) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory,
+    });
+    const tree: Record<string, any[]> = {
+      "": [
+        mockDirent("src", true),
+        mockDirent("lib", true),
+        mockDirent("README.md"),
+      ],
+      src: [
+        mockDirent("helpers", true),
+        mockDirent("index.ts"),
+        mockDirent("utils.ts"),
+      ],
+      "src/helpers": [mockDirent("format.ts")],
+      lib: [mockDirent("utils.ts")],
+    };
+    const toRelative = (entryPath: string) =>
+      path.relative(testDir, entryPath).split(path.sep).join("/");
+
+    beforeEach(() => {
+      existsSyncSpy.mockImplementation(((entryPath: string) => {
+        const relativePath = toRelative(entryPath);
+        if (relativePath in tree) return true;
+        const parent = path.posix.dirname(relativePath);
+        return (tree[parent === "." ? "" : parent] ?? []).some(
+          (entry) => entry.name === path.posix.basename(relativePath)
+        );
+      }) as any);
+      readdirSpy.mockImplementation((async (dirPath: string) => {
+        const entries = tree[toRelative(dirPath)];
+        if (!entries) throw new Error("ENOENT");
+        return entries;
+      }) as any);
+    });
+
+    it("should suggest similarly named files in the same and nearby directories", async () => {
+      const result = await replaceMatchingTextImpl({
+        filePath: path.join(testDir, "src", "utlis.ts"),
+        searchText: "a",
+        replacementText: "b",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("does not exist");
+      expect(result.result.message).toContain("SuggestedParameterValues");
+      expect(result.result.SuggestedParameterValues).toEqual([
+        { filePath: path.join(testDir, "src", "utils.ts"), similarity: 0.75 },
+        { filePath: path.join(testDir, "lib", "utils.ts"), similarity: 0.68 },
+      ]);
+    });
+
+    it("should suggest files differing only in case or extension", async () => {
+      const wrongCase = await readFileImpl({
+        filePath: path.join(testDir, "src", "Index.ts"),
+      });
+      const missingExtension = await deleteFileImpl({
+        filePath: path.join(testDir, "src", "index"),
+      });
+
+      expect(wrongCase.result.SuggestedParameterValues![0]).toEqual({
+        filePath: path.join(testDir, "src", "index.ts"),
+        similarity: 0.95,
+      });
+      expect(missingExtension.result.SuggestedParameterValues![0]).toEqual({
+        filePath: path.join(testDir, "src", "index.ts"),
+        similarity: 0.9,
+      });
+    });
+
+    it("should resolve misspelled directories", async () => {
+      const result = await deleteFileImpl({
+        filePath: path.join(testDir, "srcc", "helpers", "format.ts"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.SuggestedParameterValues).toEqual([
+        {
+          filePath: path.join(testDir, "src", "helpers", "format.ts"),
+          similarity: 0.75,
+        },
+      ]);
+      expect(unlinkSpy).not.toHaveBeenCalled();
+    });
+
+    it("should suggest values for sourceFilePath when moving a missing file", async () => {
+      const result = await moveOrRenameFileImpl({
+        sourceFilePath: path.join(testDir, "lib", "util.ts"),
+        targetFilePath: path.join(testDir, "lib", "tools.ts"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("as sourceFilePath");
+      expect(result.result.SuggestedParameterValues![0]).toEqual({
+        sourceFilePath: path.join(testDir, "lib", "utils.ts"),
+        similarity: 0.88,
+      });
+      expect(renameSpy).not.toHaveBeenCalled();
+    });
+
+    it("should not suggest anything when no similar path exists", async () => {
+      const result = await readFileImpl({
+        filePath: path.join(testDir, "docs", "guide.md"),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("does not exist");
+      expect(result.result.SuggestedParameterValues).toBeUndefined();
+    });
+  });
+
+  describe("directory tools", () => {
+    const mockDirent = (name: string, isDirectory = false) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory,
+    });
+    const existingPaths = (...relativePaths: string[]) =>
+      existsSyncSpy.mockImplementation(((entryPath: string) =>
+        [testDir, ...relativePaths.map((p) => path.join(testDir, p))].includes(
+          entryPath
+        )) as any);
+
+    beforeEach(() => {
+      statSpy.mockResolvedValue({ size: 0, isDirectory: () => true } as any);
+      readdirSpy.mockImplementation((async (dirPath: string) => {
+        const tree: Record<string, any[]> = {
+          pkg: [mockDirent("a.ts"), mockDirent("sub", true)],
+          "pkg/sub": [mockDirent("b.ts")],
+          empty: [],
+        };
+        return (
+          tree[path.relative(testDir, dirPath).split(path.sep).join("/")] ?? []
+        );
+      }) as any);
+      readFileSpy.mockResolvedValue(Buffer.from("content") as any);
+    });
+
+    it("should create a directory", async () => {
+      existingPaths();
+
+      const result = await createDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+      });
+
+      expect(result.success).toBe(true);
+      expect(mkdirSyncSpy).toHaveBeenCalledWith(path.join(testDir, "pkg"), {
+        recursive: true,
+      });
+    });
+
+    it("should remove a created directory on undo", async () => {
+      existingPaths();
+      await configureEditHistory({ depth: 10 });
+      const rmdirSpy = jest
+        .spyOn(fsPromises, "rmdir")
+        .mockResolvedValue(undefined);
+
+      await createDirectoryImpl({
+        directoryPath: path.join(testDir, "newdir"),
+      });
+      existingPaths("newdir");
+      const undone = await undoLastEditImpl({});
+
+      expect(undone.success).toBe(true);
+      expect(rmdirSpy).toHaveBeenCalledWith(path.resolve(testDir, "newdir"));
+      rmdirSpy.mockRestore();
+    });
+
+    it("should not create a directory that exists or lacks a parent", async () => {
+      existingPaths("pkg");
+
+      const existing = await createDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+      });
+      const missingParent = await createDirectoryImpl({
+        directoryPath: path.join(testDir, "other", "pkg"),
+      });
+
+      expect(existing.success).toBe(false);
+      expect(existing.result.message).toContain("already exists");
+      expect(missingParent.success).toBe(false);
+      expect(missingParent.result.message).toContain(
+        "createMissingDirectories"
+      );
+      expect(mkdirSyncSpy).not.toHaveBeenCalled();
+    });
+
+    it("should move a directory and allow undoing it", async () => {
+      await configureEditHistory({ depth: 10 });
+      existingPaths("pkg", "lib");
+
+      const result = await moveOrRenameDirectoryImpl({
+        sourceDirectoryPath: path.join(testDir, "pkg"),
+        targetDirectoryPath: path.join(testDir, "lib", "pkg"),
+      });
+
+      expect(result.success).toBe(true);
+      expect(renameSpy).toHaveBeenCalledWith(
+        path.join(testDir, "pkg"),
+        path.join(testDir, "lib", "pkg")
+      );
+
+      existingPaths("lib", "lib/pkg");
+      const undone = await undoLastEditImpl({});
+
+      expect(undone.success).toBe(true);
+      expect(renameSpy).toHaveBeenLastCalledWith(
+        path.resolve(testDir, "lib", "pkg"),
+        path.resolve(testDir, "pkg")
+      );
+    });
+
+    it("should not move a directory into itself or over an existing path", async () => {
+      existingPaths("pkg", "lib");
+
+      const intoItself = await moveOrRenameDirectoryImpl({
+        sourceDirectoryPath: path.join(testDir, "pkg"),
+        targetDirectoryPath: path.join(testDir, "pkg", "inner"),
+      });
+      const overExisting = await moveOrRenameDirectoryImpl({
+        sourceDirectoryPath: path.join(testDir, "pkg"),
+        targetDirectoryPath: path.join(testDir, "lib"),
+      });
+
+      expect(intoItself.success).toBe(false);
+      expect(intoItself.result.message).toContain(
+        "cannot be moved into itself"
+      );
+      expect(overExisting.success).toBe(false);
+      expect(overExisting.result.message).toContain("already exists");
+      expect(renameSpy).not.toHaveBeenCalled();
+    });
+
+    it("should require recursive to delete a directory that is not empty", async () => {
+      const result = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+        recursive: false,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("contains 3 entries");
+      expect(rmSpy).not.toHaveBeenCalled();
+
+      const empty = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "empty"),
+        recursive: false,
+      });
+
+      expect(empty.success).toBe(true);
+      expect(rmSpy).toHaveBeenCalledWith(path.join(testDir, "empty"), {
+        recursive: true,
+      });
+    });
+
+    it("should delete a directory recursively within maxEntries", async () => {
+      const tooMany = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+        recursive: true,
+        maxEntries: 2,
+      });
+
+      expect(tooMany.success).toBe(false);
+      expect(tooMany.result.message).toContain("more than 2 entries");
+      expect(rmSpy).not.toHaveBeenCalled();
+
+      await configureEditHistory({ depth: 10 });
+      const result = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+        recursive: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("and 3 entries in it");
+      // File contents are not read into history
+      expect(readFileSpy).not.toHaveBeenCalled();
+      expect((await listEditHistoryImpl({})).result.entries).toEqual([]);
+      expect(rmSpy).toHaveBeenCalledWith(path.join(testDir, "pkg"), {
+        recursive: true,
+      });
+    });
+
+    it("should move files of a deleted directory to trash", async () => {
+      const trashDir = path.join(testDir, ".trash");
+      await configureTrash({ trashDir });
+      const mkdirSpy = jest
+        .spyOn(fsPromises, "mkdir")
+        .mockResolvedValue(undefined);
+
+      const result = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+        recursive: true,
+      });
+      await configureTrash({});
+      mkdirSpy.mockRestore();
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("2 files were moved to trash");
+      for (const filePath of [
+        path.join(testDir, "pkg", "a.ts"),
+        path.join(testDir, "pkg", "sub", "b.ts"),
+      ]) {
+        expect(copyFileSpy).toHaveBeenCalledWith(
+          filePath,
+          expect.stringMatching(/\.data$/)
+        );
+      }
+      expect(readFileSpy).not.toHaveBeenCalled();
+      expect(rmSpy).toHaveBeenCalledWith(path.join(testDir, "pkg"), {
+        recursive: true,
+      });
+    });
+
+    it("should not delete anything when files can not be moved to trash", async () => {
+      const trashDir = path.join(testDir, ".trash");
+      await configureTrash({ trashDir });
+      const mkdirSpy = jest
+        .spyOn(fsPromises, "mkdir")
+        .mockResolvedValue(undefined);
+      copyFileSpy.mockImplementation((async (from: string) => {
+        if (from.endsWith("b.ts")) throw new Error("ENOSPC: no space left");
+      }) as any);
+
+      const result = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+        recursive: true,
+      });
+      await configureTrash({});
+      mkdirSpy.mockRestore();
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("ENOSPC: no space left");
+      expect(result.result.message).toContain("nothing was deleted");
+      const [, trashedPath] = copyFileSpy.mock.calls[0] as string[];
+      expect(unlinkSpy).toHaveBeenCalledWith(trashedPath);
+      expect(unlinkSpy).toHaveBeenCalledWith(
+        trashedPath.replace(/\.data$/, ".json")
+      );
+      expect(rmSpy).not.toHaveBeenCalled();
+    });
+
+    it("should warn that files are deleted permanently without trash", async () => {
+      const result = await deleteDirectoryImpl({
+        directoryPath: path.join(testDir, "pkg"),
+        recursive: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain(
+        "removed permanently and can not be recovered"
+      );
+    });
+
+    it("should not delete an allowed root", async () => {
+      await configureAllowedRoots([testDir]);
+
+      const result = await deleteDirectoryImpl({
+        directoryPath: testDir,
+        recursive: true,
+      });
+      await configureAllowedRoots([]);
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("cannot be deleted");
+      expect(rmSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("copyFileImpl", () => {
+    const mockDirent = (name: string, isDirectory = false) => ({
+      name,
+      isDirectory: () => isDirectory,
+      isFile: () => !isDirectory,
+    });
+    const accessTime = new Date("2024-01-01T00:00:00.000Z");
+    const modifiedTime = new Date("2024-01-02T00:00:00.000Z");
+    let sourcePath: string;
+    let targetPath: string;
+    const existingPaths = (...relativePaths: string[]) =>
+      existsSyncSpy.mockImplementation(((entryPath: string) =>
+        [testDir, ...relativePaths.map((p) => path.join(testDir, p))].includes(
+          entryPath
+        )) as any);
+
+    beforeEach(() => {
+      sourcePath = path.join(testDir, "src", "module.ts");
+      targetPath = path.join(testDir, "src", "copy.ts");
+      existingPaths("src", "src/module.ts", "pkg");
+      statSpy.mockImplementation((async (entryPath: string) => ({
+        size: 42,
+        mode: 0o100755,
+        atime: accessTime,
+        mtime: modifiedTime,
+        isDirectory: () => path.extname(entryPath) === "",
+      })) as any);
+      readdirSpy.mockImplementation((async (dirPath: string) => {
+        const tree: Record<string, any[]> = {
+          pkg: [mockDirent("a.ts"), mockDirent("sub", true)],
+          "pkg/sub": [mockDirent("b.ts")],
+        };
+        return (
+          tree[path.relative(testDir, dirPath).split(path.sep).join("/")] ?? []
+        );
+      }) as any);
+      readFileSpy.mockResolvedValue(Buffer.from("content") as any);
+    });
+
+    it("should copy a file and report bytes copied", async () => {
+      const result = await copyFileImpl({ sourcePath, targetPath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.bytesCopied).toBe(42);
+      expect(result.result.message).toContain("(1 file, 42 bytes)");
+      expect(copyFileSpy).toHaveBeenCalledWith(
+        sourcePath,
+        targetPath,
+        fs.constants.COPYFILE_EXCL
+      );
+      // The mode of the source is not kept
+      expect(chmodSpy).toHaveBeenCalledWith(
+        targetPath,
+        0o666 & ~process.umask()
+      );
+      expect(utimesSpy).not.toHaveBeenCalled();
+    });
+
+    it("should preserve mode and timestamps when requested", async () => {
+      const result = await copyFileImpl({
+        sourcePath,
+        targetPath,
+        preserveMetadata: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(chmodSpy).toHaveBeenCalledWith(targetPath, 0o755);
+      expect(utimesSpy).toHaveBeenCalledWith(
+        targetPath,
+        accessTime,
+        modifiedTime
+      );
+    });
+
+    it("should not overwrite an existing target or create missing directories unless asked", async () => {
+      const existingTarget = await copyFileImpl({
+        sourcePath,
+        targetPath: path.join(testDir, "src", "module.ts"),
+      });
+      const missingDirectory = await copyFileImpl({
+        sourcePath,
+        targetPath: path.join(testDir, "lib", "copy.ts"),
+      });
+
+      expect(existingTarget.success).toBe(false);
+      expect(existingTarget.result.message).toContain("already exists");
+      expect(missingDirectory.success).toBe(false);
+      expect(missingDirectory.result.message).toContain(
+        "createMissingDirectories"
+      );
+      expect(copyFileSpy).not.toHaveBeenCalled();
+
+      const created = await copyFileImpl({
+        sourcePath,
+        targetPath: path.join(testDir, "lib", "copy.ts"),
+        createMissingDirectories: true,
+      });
+
+      expect(created.success).toBe(true);
+      expect(mkdirSyncSpy).toHaveBeenCalledWith(path.join(testDir, "lib"), {
+        recursive: true,
+      });
+    });
+
+    it("should copy a directory recursively", async () => {
+      const notRecursive = await copyFileImpl({
+        sourcePath: path.join(testDir, "pkg"),
+        targetPath: path.join(testDir, "pkg2"),
+      });
+
+      expect(notRecursive.success).toBe(false);
+      expect(notRecursive.result.message).toContain("recursive set to true");
+
+      const result = await copyFileImpl({
+        sourcePath: path.join(testDir, "pkg"),
+        targetPath: path.join(testDir, "pkg2"),
+        recursive: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("(2 files, 84 bytes)");
+      expect(mkdirSyncSpy).toHaveBeenCalledWith(path.join(testDir, "pkg2"), {
+        recursive: true,
+      });
+      expect(mkdirSyncSpy).toHaveBeenCalledWith(
+        path.join(testDir, "pkg2", "sub"),
+        { recursive: true }
+      );
+      expect(copyFileSpy).toHaveBeenCalledWith(
+        path.join(testDir, "pkg", "sub", "b.ts"),
+        path.join(testDir, "pkg2", "sub", "b.ts"),
+        fs.constants.COPYFILE_EXCL
+      );
+    });
+
+    it("should remove the copy on undo and copy it again on redo", async () => {
+      await configureEditHistory({ depth: 10 });
+      await copyFileImpl({ sourcePath, targetPath });
+
+      expect(readFileSpy).not.toHaveBeenCalled();
+
+      existingPaths("src", "src/module.ts", "src/copy.ts");
+      const undone = await undoLastEditImpl({});
+
+      expect(undone.success).toBe(true);
+      expect(unlinkSpy).toHaveBeenCalledWith(path.resolve(targetPath));
+
+      existingPaths("src", "src/module.ts");
+      copyFileSpy.mockClear();
+      const redone = await redoEditImpl({});
+
+      expect(redone.success).toBe(true);
+      expect(copyFileSpy).toHaveBeenCalledWith(
+        path.resolve(sourcePath),
+        path.resolve(targetPath),
+        fs.constants.COPYFILE_EXCL
+      );
+    });
+
+    it("should remove created directories on undo once they are empty", async () => {
+      await configureEditHistory({ depth: 10 });
+      await copyFileImpl({
+        sourcePath: path.join(testDir, "pkg"),
+        targetPath: path.join(testDir, "pkg2"),
+        recursive: true,
+      });
+
+      existingPaths("pkg", "pkg2", "pkg2/a.ts", "pkg2/sub", "pkg2/sub/b.ts");
+      const readTree = readdirSpy.getMockImplementation()!;
+      readdirSpy.mockImplementation((async (dirPath: string) =>
+        (
+          await (readTree as any)(
+            dirPath.replace(
+              path.join(testDir, "pkg2"),
+              path.join(testDir, "pkg")
+            )
+          )
+        ).map((dirent: { name: string }) => dirent.name)) as any);
+      const rmdirSpy = jest
+        .spyOn(fsPromises, "rmdir")
+        .mockResolvedValue(undefined);
+      const undone = await undoLastEditImpl({});
+
+      expect(undone.success).toBe(true);
+      expect(undone.result.filePaths).toEqual(
+        [
+          ["pkg2"],
+          ["pkg2", "sub"],
+          ["pkg2", "a.ts"],
+          ["pkg2", "sub", "b.ts"],
+        ].map((segments) => path.resolve(testDir, ...segments))
+      );
+      expect(unlinkSpy).toHaveBeenCalledTimes(2);
+      expect(rmdirSpy.mock.calls.map(([dirPath]) => dirPath)).toEqual([
+        path.resolve(testDir, "pkg2", "sub"),
+        path.resolve(testDir, "pkg2"),
+      ]);
+      rmdirSpy.mockRestore();
+    });
+
+    it("should not remove a created directory holding other files on undo", async () => {
+      await configureEditHistory({ depth: 10 });
+      await copyFileImpl({
+        sourcePath: path.join(testDir, "pkg"),
+        targetPath: path.join(testDir, "pkg2"),
+        recursive: true,
+      });
+
+      existingPaths("pkg", "pkg2", "pkg2/a.ts", "pkg2/sub", "pkg2/sub/b.ts");
+      readdirSpy.mockResolvedValue(["a.ts", "sub", "new.ts"] as any);
+      const undone = await undoLastEditImpl({});
+
+      expect(undone.success).toBe(false);
+      expect(undone.result.message).toContain(path.resolve(testDir, "pkg2"));
+      expect(unlinkSpy).not.toHaveBeenCalled();
+    });
+
+    it("should not remove a copy that was changed since on undo", async () => {
+      await configureEditHistory({ depth: 10 });
+      await copyFileImpl({ sourcePath, targetPath });
+
+      existingPaths("src", "src/module.ts", "src/copy.ts");
+      mockFileHandle.read.mockImplementationOnce(async (buffer: Buffer) => {
+        buffer.write("changed");
+        return { bytesRead: 7, buffer };
+      });
+      const undone = await undoLastEditImpl({});
+
+      expect(undone.success).toBe(false);
+      expect(undone.result.message).toContain(path.resolve(targetPath));
+      expect(unlinkSpy).not.toHaveBeenCalled();
+    });
+
+    it("should copy symbolic links within allowed directories as links and skip other entries", async () => {
+      const specialDirent = (name: string, isSymbolicLink: boolean) => ({
+        name,
+        isDirectory: () => false,
+        isFile: () => false,
+        isSymbolicLink: () => isSymbolicLink,
+      });
+      readdirSpy.mockResolvedValue([
+        mockDirent("a.ts"),
+        specialDirent("current.ts", true),
+        specialDirent("secret", true),
+        specialDirent("server.sock", false),
+      ] as any);
+      const readlinkSpy = jest
+        .spyOn(fsPromises, "readlink")
+        .mockImplementation((async (linkPath: string) =>
+          path.basename(linkPath) === "secret"
+            ? "/etc/passwd"
+            : "a.ts") as any);
+      const symlinkSpy = jest
+        .spyOn(fsPromises, "symlink")
+        .mockResolvedValue(undefined);
+      await configureAllowedRoots([testDir]);
+
+      const result = await copyFileImpl({
+        sourcePath: path.join(testDir, "pkg"),
+        targetPath: path.join(testDir, "pkg2"),
+        recursive: true,
+      });
+      await configureAllowedRoots([]);
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("(2 files, 42 bytes)");
+      expect(result.result.message).toContain("Skipped 2 entries");
+      expect(result.result.skippedPaths).toEqual([
+        path.join(testDir, "pkg", "secret"),
+        path.join(testDir, "pkg", "server.sock"),
+      ]);
+      expect(symlinkSpy).toHaveBeenCalledTimes(1);
+      expect(symlinkSpy).toHaveBeenCalledWith(
+        "a.ts",
+        path.join(testDir, "pkg2", "current.ts")
+      );
+      readlinkSpy.mockRestore();
+      symlinkSpy.mockRestore();
+    });
+
+    it("should remove a partially copied directory when a copy fails", async () => {
+      copyFileSpy.mockImplementation((async (from: string) => {
+        if (from.endsWith("b.ts")) throw new Error("EIO: i/o error");
+      }) as any);
+
+      const result = await copyFileImpl({
+        sourcePath: path.join(testDir, "pkg"),
+        targetPath: path.join(testDir, "pkg2"),
+        recursive: true,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.result.message).toContain("EIO: i/o error");
+      expect(rmSpy).toHaveBeenCalledWith(path.join(testDir, "pkg2"), {
+        recursive: true,
+        force: true,
+      });
+    });
+  });
+
+  describe("trash", () => {
+    let trashDir: string;
+    let mkdirSpy: jest.SpiedFunction<typeof fsPromises.mkdir>;
+    const trashEntry = (id: string, trashedAt: string, fileName: string) => ({
+      id,
+      originalPath: path.join(testDir, fileName),
+      reason: "deleted",
+      trashedAt,
+      size: 5,
+      mode: 0o644,
+    });
+    let entries: ReturnType<typeof trashEntry>[];
+
+    beforeEach(async () => {
+      trashDir = path.join(testDir, ".trash");
+      await configureTrash({ trashDir });
+      mkdirSpy = jest.spyOn(fsPromises, "mkdir").mockResolvedValue(undefined);
+      entries = [
+        trashEntry("1-aaaa", "2020-01-01T00:00:00.000Z", "old.ts"),
+        trashEntry("2-bbbb", new Date().toISOString(), "test.txt"),
+      ];
+      readdirSpy.mockImplementation((async () =>
+        entries.flatMap((e) => [`${e.id}.json`, `${e.id}.data`])) as any);
+      readFileSpy.mockImplementation((async (filePath: string) => {
+        const entry = entries.find(
+          (e) => filePath === path.join(trashDir, `${e.id}.json`)
+        );
+        return entry ? JSON.stringify(entry) : "old content";
+      }) as any);
+    });
+
+    afterEach(async () => {
+      mkdirSpy.mockRestore();
+      await configureTrash({});
+    });
+
+    it("should move deleted files to trash with metadata", async () => {
+      const result = await deleteFileImpl({ filePath: testFilePath });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("moved to trash with id");
+      expect(mkdirSpy).toHaveBeenCalledWith(trashDir, {
+        recursive: true,
+        mode: 0o700,
+      });
+      const [, contentPath] = renameSpy.mock.calls[0] as string[];
+      expect(path.dirname(contentPath)).toBe(trashDir);
+      expect(renameSpy).toHaveBeenCalledWith(testFilePath, contentPath);
+      const metadataCall = writeFileSpy.mock.calls.find(
+        (c) => c[0] === contentPath.replace(/\.data$/, ".json")
+      );
+      expect(JSON.parse(metadataCall![1] as string)).toMatchObject({
+        originalPath: path.resolve(testFilePath),
+        reason: "deleted",
+        size: 100,
+        mode: 0o644,
+      });
+      expect(unlinkSpy).not.toHaveBeenCalledWith(testFilePath);
+    });
+
+    it("should copy the original of an overwritten file to trash", async () => {
+      const result = await overwriteFileContentImpl({
+        filePath: testFilePath,
+        fileContent: "new content",
+      });
+
+      expect(result.success).toBe(true);
+      expect(copyFileSpy).toHaveBeenCalledWith(
+        testFilePath,
+        expect.stringMatching(/\.data$/)
+      );
+      expect(writeFileSpy).toHaveBeenCalledWith(
+        tempFileFor(testFilePath),
+        "new content",
+        "utf-8"
+      );
+    });
+
+    it("should list trash entries most recent first", async () => {
+      const result = await listTrashImpl({});
+      const filtered = await listTrashImpl({
+        filePath: path.join(testDir, "old.ts"),
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result.entries!.map((e) => e.id)).toEqual([
+        "2-bbbb",
+        "1-aaaa",
+      ]);
+      expect(filtered.result.entries!.map((e) => e.id)).toEqual(["1-aaaa"]);
+    });
+
+    it("should only expose entries of files within the allowed roots", async () => {
+      entries.push({
+        ...trashEntry("3-cccc", new Date().toISOString(), "outside.ts"),
+        originalPath: path.resolve(testDir, "..", "..", "outside.ts"),
+      });
+      await configureAllowedRoots([testDir]);
+
+      const listed = await listTrashImpl({});
+      const restored = await restoreFromTrashImpl({
+        id: "3-cccc",
+        targetFilePath: path.join(testDir, "stolen.ts"),
+      });
+      const emptied = await emptyTrashImpl({ ids: ["3-cccc"] });
+      await configureAllowedRoots([]);
+
+      expect(listed.result.entries!.map((e) => e.id)).toEqual([
+        "2-bbbb",
+        "1-aaaa",
+      ]);
+      expect(restored.success).toBe(false);
+      expect(restored.result.message).toContain("No trash entry with id");
+      expect(emptied.result.message).toContain("0 trash entries");
+      expect(renameSpy).not.toHaveBeenCalled();
+      expect(unlinkSpy).not.toHaveBeenCalled();
+    });
+
+    it("should restore a file to its original path", async () => {
+      const originalPath = path.join(testDir, "old.ts");
+      existsSyncSpy.mockImplementation((p) => p !== originalPath);
+
+      const result = await restoreFromTrashImpl({ id: "1-aaaa" });
+
+      expect(result.success).toBe(true);
+      expect(renameSpy).toHaveBeenCalledWith(
+        path.join(trashDir, "1-aaaa.data"),
+        originalPath
+      );
+      expect(chmodSpy).toHaveBeenCalledWith(originalPath, 0o644);
+      expect(unlinkSpy).toHaveBeenCalledWith(
+        path.join(trashDir, "1-aaaa.json")
+      );
+    });
+
+    it("should not restore over an existing file unless overwrite is set", async () => {
+      const existing = await restoreFromTrashImpl({ id: "2-bbbb" });
+
+      expect(existing.success).toBe(false);
+      expect(existing.result.message).toContain("overwrite set to true");
+      expect(renameSpy).not.toHaveBeenCalled();
+
+      const unknown = await restoreFromTrashImpl({ id: "3-cccc" });
+
+      expect(unknown.success).toBe(false);
+      expect(unknown.result.message).toContain("list_trash");
+
+      const overwritten = await restoreFromTrashImpl({
+        id: "2-bbbb",
+        overwrite: true,
+      });
+
+      expect(overwritten.success).toBe(true);
+      expect(renameSpy).toHaveBeenNthCalledWith(
+        1,
+        testFilePath,
+        expect.stringMatching(/\.data$/)
+      );
+      expect(renameSpy).toHaveBeenNthCalledWith(
+        2,
+        path.join(trashDir, "2-bbbb.data"),
+        testFilePath
+      );
+    });
+
+    it("should permanently delete entries older than the given days", async () => {
+      const result = await emptyTrashImpl({ olderThanDays: 1 });
+
+      expect(result.success).toBe(true);
+      expect(result.result.message).toContain("1 trash entry");
+      expect(unlinkSpy).toHaveBeenCalledWith(
+        path.join(trashDir, "1-aaaa.data")
+      );
+      expect(unlinkSpy).toHaveBeenCalledWith(
+        path.join(trashDir, "1-aaaa.json")
+      );
+      expect(unlinkSpy).not.toHaveBeenCalledWith(
+        path.join(trashDir, "2-bbbb.data")
+      );
+    });
+
+    it("should delete permanently when trash is not configured", async () => {
+      await configureTrash({});
+
+      const deleted = await deleteFileImpl({ filePath: testFilePath });
+      const listed = await listTrashImpl({});
+
+      expect(deleted.result.message).not.toContain("trash");
+      expect(unlinkSpy).toHaveBeenCalledWith(testFilePath);
+      expect(listed.success).toBe(false);
+      expect(listed.result.message).toContain("not configured");
+    });
+  });
 });
@@ -2,8 +2,10 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
+import * as vm from "vm";
 
 const BINARY_EXTENSIONS = new Set([
   ".exe",
@@ -106,6 +108,12 @@ async function isBinaryFile(filePath: string): Promise<boolean> {
         }
       }
 
+      // UTF-16 text contains zero bytes as well
+      const { encoding } = detectEncoding(buffer.subarray(0, bytesRead));
+      if (encoding === "utf-16le" || encoding === "utf-16be") {
+        return false;
+      }
+
       for (let i = 0; i < bytesRead; i++) {
         if (buffer[i] === 0) {
           return true;
@@ -123,26 +131,297 @@ async function isBinaryFile(filePath: string): Promise<boolean> {
   }
 }
 
+const SUPPORTED_ENCODINGS = [
+  "utf-8",
+  "utf-16le",
+  "utf-16be",
+  "latin1",
+] as const;
+
+type TextEncoding = (typeof SUPPORTED_ENCODINGS)[number];
+
+type FileEncoding = { encoding: TextEncoding; bom: boolean };
+
+const DEFAULT_FILE_ENCODING: FileEncoding = { encoding: "utf-8", bom: false };
+
+const BYTE_ORDER_MARKS: Array<{ bytes: Uint8Array; encoding: TextEncoding }> = [
+  { bytes: new Uint8Array([0xef, 0xbb, 0xbf]), encoding: "utf-8" },
+  { bytes: new Uint8Array([0xff, 0xfe]), encoding: "utf-16le" },
+  { bytes: new Uint8Array([0xfe, 0xff]), encoding: "utf-16be" },
+];
+
+function detectEncoding(bytes: Uint8Array): FileEncoding {
+  for (const { bytes: bom, encoding } of BYTE_ORDER_MARKS) {
+    if (bom.every((b, i) => bytes[i] === b)) return { encoding, bom: true };
+  }
+
+  // Without a BOM, UTF-16 text is recognized by the zero high bytes of
+  // ASCII characters, which make up most of the code units of source files
+  const sampleLength = Math.min(bytes.length, 8192) & ~1;
+  if (sampleLength > 0) {
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < sampleLength; i++) {
+      if (bytes[i] === 0) {
+        if (i % 2 === 0) evenZeros++;
+        else oddZeros++;
+      }
+    }
+    const codeUnits = sampleLength / 2;
+    if (oddZeros > codeUnits * 0.4 && evenZeros < codeUnits * 0.1) {
+      return { encoding: "utf-16le", bom: false };
+    }
+    if (evenZeros > codeUnits * 0.4 && oddZeros < codeUnits * 0.1) {
+      return { encoding: "utf-16be", bom: false };
+    }
+  }
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return { encoding: "utf-8", bom: false };
+  } catch {
+    // Every byte sequence is valid Latin-1
+    return { encoding: "latin1", bom: false };
+  }
+}
+
+function byteOrderMarkLength(fileEncoding: FileEncoding): number {
+  if (!fileEncoding.bom) return 0;
+  return BYTE_ORDER_MARKS.find((m) => m.encoding === fileEncoding.encoding)
+    .bytes.length;
+}
+
+function decodeText(bytes: Buffer, fileEncoding: FileEncoding): string {
+  const content = bytes.subarray(byteOrderMarkLength(fileEncoding));
+  switch (fileEncoding.encoding) {
+    case "utf-16le":
+      return content.toString("utf16le");
+    case "utf-16be":
+      return new TextDecoder("utf-16be", { ignoreBOM: true }).decode(content);
+    case "latin1":
+      return content.toString("latin1");
+    default:
+      return content.toString("utf-8");
+  }
+}
+
+function encodeText(text: string, fileEncoding: FileEncoding): Buffer {
+  let content: Buffer;
+  switch (fileEncoding.encoding) {
+    case "utf-16le":
+      content = Buffer.from(text, "utf16le");
+      break;
+    case "utf-16be":
+      content = Buffer.from(text, "utf16le").swap16();
+      break;
+    case "latin1":
+      content = Buffer.from(text, "latin1");
+      break;
+    default:
+      content = Buffer.from(text, "utf-8");
+  }
+  const bom = fileEncoding.bom
+    ? BYTE_ORDER_MARKS.find((m) => m.encoding === fileEncoding.encoding)
+    : undefined;
+  return bom ? Buffer.concat([bom.bytes, content]) : content;
+}
+
+function findUnencodableCharacter(
+  text: string,
+  encoding: TextEncoding
+): string | undefined {
+  if (encoding !== "latin1") return undefined;
+  return Array.from(text).find((c) => c.codePointAt(0) > 0xff);
+}
+
+async function readTextFile(
+  filePath: string,
+  encoding?: TextEncoding
+): Promise<{ text: string; fileEncoding: FileEncoding }> {
+  const bytes = Buffer.from(await fs.promises.readFile(filePath));
+  const detected = detectEncoding(bytes);
+  // A BOM is only kept when it belongs to the requested encoding
+  const fileEncoding =
+    encoding === undefined
+      ? detected
+      : { encoding, bom: detected.bom && detected.encoding === encoding };
+  return { text: decodeText(bytes, fileEncoding), fileEncoding };
+}
+
+const REGEX_PREVIEW_COUNT = 10;
+// Limits for regular expressions in regex mode. They run on the event loop,
+// so a pathological pattern (catastrophic backtracking) would otherwise
+// block the server.
+const MAX_REGEX_LENGTH = 1000;
+const REGEX_TIMEOUT_MS = 2000;
+// Ambiguous matches are all located, but only the first few are suggested
+const MAX_DISAMBIGUATION_SUGGESTIONS = 3;
+
 const messages = {
   paramMissing: (param: string) =>
     `${param} must be provided and should be non-empty. Re-try with corrected parameters.`,
   fileNotExist: (filePath: string) =>
-    `File ${filePath} does not exist. You may want to list files in the target directory to verify the correct filename and path. Verify path or create it first and then re-try.`,
+    `File ${filePath} does not exist. You may want to list files in the target directory (list_directory tool can be used for this) to verify the correct filename and path. Verify path or create it first and then re-try.`,
+  fileNotExistWithSuggestions: (filePath: string, param: string) =>
+    `File ${filePath} does not exist. Check the SuggestedParameterValues array in this error message, it lists existing files with similar paths (most similar first). If one of them is the intended file, re-try with it as ${param}. Otherwise list files in the target directory (list_directory tool can be used for this) to verify the correct filename and path.`,
   filePermissionError: (filePath: string) =>
     `File ${filePath} is not readable or writable. Check permissions and re-try.`,
   binaryFileError: (filePath: string) =>
-    `File ${filePath} appears to be binary. Cannot perform text operations. Verify you provided correct file path. You may want to list files in the target directory to verify the correct filename and path.`,
+    `File ${filePath} appears to be binary. Cannot perform text operations. Verify you provided correct file path. You may want to list files in the target directory (list_directory tool can be used for this) to verify the correct filename and path.`,
   identicalText: `searchText and replacementText are identical, meaning no change is needed. If you intend to modify the file, provide distinct searchText and replacementText and re-try.`,
   noMatchFound: (param: string) =>
-    `No match found for ${param}. Try different ${param}. Check if this error message contains suggested parameter values for ${param}. If yes, this array can help you determine the correct value. *It is recommended* to read the file again, especially when no parameter values have been proposed, so that you can re-try with correct parameters.`,
+    `No match found for ${param}. Try different ${param}. Check if this error message contains suggested parameter values for ${param}. If yes, this array can help you determine the correct value. *It is recommended* to read the file again (read_file tool can be used for this), especially when no parameter values have been proposed, so that you can re-try with correct parameters.`,
   multipleMatches: (param) =>
     `Multiple matches found for ${param}. To avoid unintended changes, specify a unique ${param}. Check if this error message contains a suggestedParameterValues array. If yes, this array can help you determine what you could have tried to search. Re-read file if needed (strongly recommended to re-read the file when suggestedParameterValues array is empty in this error message). Re-try with correct parameters.`,
   targetPathExists: (targetPath: string) =>
-    `Target file ${targetPath} already exists. You may want to list files in the target directory to verify the correct filename and path. Choose a different name or delete the file first. Re-try with correct parameters.`,
+    `Target file ${targetPath} already exists. You may want to list files in the target directory (list_directory tool can be used for this) to verify the correct filename and path. Choose a different name or delete the file first. Re-try with correct parameters.`,
   directoryMissing: (dir: string, filePath: string) =>
-    `Parent directory '${dir}' for file '${filePath}' does not exist. You may want to list files in the target directory to verify the correct filename and path. If you want the required directories to be created automatically then set createMissingDirectories as true. Re-try with correct parameters.`,
+    `Parent directory '${dir}' for file '${filePath}' does not exist. You may want to list files in the target directory (list_directory tool can be used for this) to verify the correct filename and path. If you want the required directories to be created automatically then set createMissingDirectories as true. Re-try with correct parameters.`,
+  directoryNotExist: (dirPath: string) =>
+    `Directory ${dirPath} does not exist or is not a directory. Verify the path and re-try with correct parameters.`,
+  noMatchFoundInDirectory: (dirPath: string, entriesSkipped: number = 0) =>
+    `No match found for searchText in any file under ${dirPath}.${
+      entriesSkipped > 0
+        ? ` ${entriesSkipped} file${
+            entriesSkipped !== 1 ? "s or directories" : " or directory"
+          } could not be read and ${
+            entriesSkipped !== 1 ? "were" : "was"
+          } skipped.`
+        : ""
+    } Check if this error message contains suggested parameter values. If yes, they are the closest matches found (best first) and can help you determine the correct searchText and filePath. Otherwise verify includeGlobs/excludeGlobs and directoryPath, or read the target file to determine the correct searchText.`,
+  directoryAlreadyExists: (dirPath: string) =>
+    `Directory ${dirPath} already exists. No need to create it. You may want to list its files (list_directory tool can be used for this).`,
+  parentDirectoryMissing: (dir: string, dirPath: string) =>
+    `Parent directory '${dir}' for directory '${dirPath}' does not exist. You may want to list files in the target directory (list_directory tool can be used for this) to verify the correct path. If you want the required directories to be created automatically then set createMissingDirectories as true. Re-try with correct parameters.`,
+  directoryIntoItself: (
+    sourceDirPath: string,
+    targetDirPath: string,
+    action: string = "moved"
+  ) =>
+    `Directory ${sourceDirPath} cannot be ${action} into itself (${targetDirPath}). Choose a target path outside of the source directory and re-try with correct parameters.`,
+  copyDirectoryNotRecursive: (dirPath: string) =>
+    `${dirPath} is a directory. To copy it along with everything in it, re-try with recursive set to true.`,
+  tooManyEntriesToCopy: (dirPath: string, maxEntries: number) =>
+    `Directory ${dirPath} contains more than ${maxEntries} entries, which exceeds the safety limit for copying. No changes were made. Verify that this is the intended directory (list_directory tool can be used for this). If it is, re-try with a higher maxEntries.`,
+  directoryNotEmpty: (
+    dirPath: string,
+    entryCount: number,
+    maxEntries: number
+  ) =>
+    `Directory ${dirPath} is not empty, it contains ${
+      entryCount > maxEntries ? `more than ${maxEntries}` : entryCount
+    } entr${
+      entryCount !== 1 ? "ies" : "y"
+    }. No changes were made. Verify the directory contents (list_directory tool can be used for this) and, only if everything in it should be deleted, re-try with recursive set to true.`,
+  tooManyEntriesToDelete: (dirPath: string, maxEntries: number) =>
+    `Directory ${dirPath} contains more than ${maxEntries} entries, which exceeds the safety limit for deletion. No changes were made. Verify that this is the intended directory (list_directory tool can be used for this). If it is, re-try with a higher maxEntries.`,
+  directoryTrashFailed: (dirPath: string, error: string) =>
+    `Files in ${dirPath} could not be moved to trash (${error}), so nothing was deleted. Resolve the problem and re-try, or delete the files individually.`,
+  allowedRootDeletion: (dirPath: string) =>
+    `Directory ${dirPath} is one of the directories this server is allowed to access and cannot be deleted. Delete its contents individually if needed.`,
+  trashNotConfigured:
+    "Trash is not configured for this server, deleted and overwritten files are not kept. Recently deleted or overwritten files (but not deleted directories) may still be reverted with undo_last_edit tool, unless they were larger than 1 MB.",
+  trashEntryNotFound: (id: string) =>
+    `No trash entry with id ${id} exists. Use list_trash tool to find the correct id and re-try with correct parameters.`,
+  trashTargetExists: (filePath: string) =>
+    `File ${filePath} already exists. Re-try with overwrite set to true to replace it (its current content is moved to trash first), or with a different targetFilePath.`,
   fileAlreadyExists: (filePath: string) =>
-    `File to be created '${filePath}' already exists. You may want to list files in the target directory to verify the correct filename and path.. Provide a valid filePath and Re-try with correct parameters.`,
+    `File to be created '${filePath}' already exists. You may want to list files in the target directory (list_directory tool can be used for this) to verify the correct filename and path.. Provide a valid filePath and Re-try with correct parameters.`,
+  invalidLineRange: (startLine: number, endLine: number, totalLines: number) =>
+    `Invalid line range ${startLine}-${endLine}. File has ${totalLines} line${
+      totalLines !== 1 ? "s" : ""
+    }, line numbers must be within it and startLine must not be greater than endLine. Re-try with correct parameters.`,
+  invalidInsertLine: (line: number, totalLines: number) =>
+    `Invalid line ${line}. File has ${totalLines} line${
+      totalLines !== 1 ? "s" : ""
+    }, so text can be inserted at lines 1-${
+      totalLines + 1
+    }. Re-try with correct parameters.`,
+  unexpectedLineContent: (startLine: number, endLine: number) =>
+    `Content of lines ${startLine}-${endLine} does not match expectedContent, so no changes were made. The line numbers are probably stale (for e.g. the file was edited since you read it). actualContent is the current content of these lines. Re-read the file if needed and re-try with correct line numbers.`,
+  readTruncated: (
+    nextStartLine: number,
+    maxCharacters: number,
+    nextStartColumn?: number
+  ) =>
+    `Output was truncated to stay within maxCharacters (${maxCharacters}). To continue reading, re-try with startLine set to ${nextStartLine}${
+      nextStartColumn !== undefined
+        ? ` and startColumn set to ${nextStartColumn} (line ${nextStartLine} is longer than maxCharacters, only its beginning was returned)`
+        : ""
+    }.`,
+  occurrenceCountMismatch: (param: string, expected: number, actual: number) =>
+    `Expected ${expected} occurrence${
+      expected !== 1 ? "s" : ""
+    } of ${param} but found ${actual}. No changes were made. Verify that ${param} is correct (re-read the file or use search_in_file tool if needed) and re-try with correct ${param} or expectedOccurrences.`,
+  pathOutsideAllowedRoots: (targetPath: string, allowedRoots: string[]) =>
+    `Path ${targetPath} is outside of the directories this server is allowed to access (${allowedRoots.join(
+      ", "
+    )}). Symbolic links and '..' segments are resolved before this check. Provide a path within one of the allowed directories and re-try.`,
+  batchEditsFailed: (failedCount: number, totalCount: number) =>
+    `${failedCount} of ${totalCount} edit operation${
+      totalCount !== 1 ? "s" : ""
+    } could not be applied, so no changes were made to the file. Check operationResults for the reason each operation failed (operationIndex is 0-based) and for suggested parameter values. Re-try with all operations corrected.`,
+  overlappingEdits: (firstIndex: number, secondIndex: number) =>
+    `Edit operations ${firstIndex} and ${secondIndex} change overlapping text. Combine them into a single operation or change their searchText/anchorText so that they do not overlap. Re-try with correct parameters.`,
+  duplicateTransactionFile: (filePath: string) =>
+    `File ${filePath} is listed more than once. Provide all edit operations for a file in a single entry and re-try.`,
+  transactionFailed: (failedCount: number, totalCount: number) =>
+    `${failedCount} of ${totalCount} file${
+      totalCount !== 1 ? "s" : ""
+    } could not be edited, so no changes were made to any file. Check fileResults for the reason each file failed and, where present, operationResults and suggested parameter values. Re-try with all edits corrected.`,
+  transactionRolledBack: (errMsg: string) =>
+    `Writing files failed (${errMsg}). Files already written were restored to their original content, so no changes were made to any file. Re-check parameters and re-try.`,
+  transactionRollbackFailed: (errMsg: string, filePaths: string[]) =>
+    `Writing files failed (${errMsg}) and these files could not be restored to their original content: ${filePaths.join(
+      ", "
+    )}. Read these files to verify their content before re-trying.`,
+  nothingToUndo: (filePath?: string) =>
+    `There is no recorded edit${
+      filePath ? ` of ${filePath}` : ""
+    } to undo. Only edits made by this server's tools are recorded, up to the configured history depth. Use list_edit_history tool to see recorded edits.`,
+  nothingToRedo: (filePath?: string) =>
+    `There is no undone edit${
+      filePath ? ` of ${filePath}` : ""
+    } to redo. Only edits undone with undo_last_edit tool can be redone, and only until the same files are edited again. Use list_edit_history tool to see recorded edits.`,
+  historyConflict: (filePath: string, action: string) =>
+    `${filePath} has changed since the edit was recorded (for e.g. it was modified outside of this server), so the edit can not be ${action} safely. No changes were made. Read the file and make the required changes with the editing tools instead.`,
+  fileChangedSinceRead: (filePath: string) =>
+    `File ${filePath} has changed since you read it (its content hash does not match expectedHash), so no changes were made. contentHash is the hash of the current content and diff, when present, shows the change this call would make to the current content. Review it (re-read the file if needed) and re-try with contentHash as expectedHash.`,
+  fileChangedDuringEdit: (filePath: string) =>
+    `File ${filePath} was changed by another process while this edit was being made, so no changes were made. Re-read the file if needed and re-try.`,
+  diffTruncated: (omittedLineCount: number) =>
+    `... diff truncated, ${omittedLineCount} more line${
+      omittedLineCount !== 1 ? "s" : ""
+    } omitted. Use changedLineRanges and read_file to review the rest of the change.`,
+  mixedLineEndings: (filePath: string) =>
+    `File ${filePath} already contained mixed line endings (for e.g. both CRLF and LF) before this edit. Line endings of inserted text were converted to the most common one in the file unless normalizeLineEndings was false, existing line endings were left unchanged.`,
+  unencodableText: (filePath: string, encoding: string, character: string) =>
+    `The resulting content of ${filePath} contains the character '${character}' which can not be represented in the file's ${encoding} encoding, so no changes were made. Re-try without such characters (for e.g. use an escape sequence of the file's language instead).`,
+  matchLines: (
+    lines: number[],
+    paramNames: { occurrenceIndex: string; nearLine: string }
+  ) =>
+    `Matches are on lines ${lines.slice(0, 20).join(", ")}${
+      lines.length > 20 ? `, ... (${lines.length} matches in total, ` : " ("
+    }in order of occurrence). Instead of a longer unique text, you can re-try with ${
+      paramNames.occurrenceIndex
+    } (1-based position of the match in this list) or ${
+      paramNames.nearLine
+    } (the match closest to this line is picked) to pick one of them.`,
+  occurrenceIndexOutOfRange: (param: string, index: number, count: number) =>
+    `${param} is ${index} but only ${count} match${
+      count !== 1 ? "es were" : " was"
+    } found, so no changes were made. Re-try with ${param} between 1 and ${count}.`,
+  invalidRegex: (errMsg: string) =>
+    `searchText is not a valid regular expression with the provided regexFlags (${errMsg}). Fix the pattern (special characters such as ( . * + ? need to be escaped with \\ to be matched literally) and re-try.`,
+  regexTooLong: (length: number) =>
+    `searchText is ${length} characters long, but regular expressions are limited to ${MAX_REGEX_LENGTH} characters, so no changes were made. Use a shorter pattern, or literal mode for long texts, and re-try.`,
+  regexTimeout: `Matching the regular expression in searchText took longer than ${REGEX_TIMEOUT_MS} ms and was aborted, so no changes were made. The pattern likely backtracks excessively (for e.g. nested quantifiers such as (a+)+). Use a simpler, more specific pattern and re-try.`,
+  noRegexMatch: `No match found for the regular expression in searchText. Unlike literal mode, the pattern is matched against the exact file content including white space and line endings. Verify the pattern and regexFlags (read the file again if needed) and re-try.`,
+  tooManyRegexMatches: (maxMatches: number) =>
+    `searchText matches more than maxMatches (${maxMatches}) times, so no changes were made. Use a more specific pattern, or increase maxMatches if replacing all of these matches is intended.`,
+  multipleRegexMatches: (count: number) =>
+    `searchText matches ${count} times, so no changes were made. substitutions previews the first matches and their replacements. Set replaceAllOccurrencesOfSearchText to true if all of them should be replaced, otherwise make the pattern more specific, and re-try.`,
   unexpectedError: (errMsg: string) =>
     `Error: ${errMsg}. Re-check parameters and Re-try with correct parameters.`,
   success: {
@@ -160,6 +439,145 @@ const messages = {
     renamed: (oldPath: string, newPath: string) =>
       `Successfully moved or renamed ${oldPath} to ${newPath}.`,
     fileDeleted: (filePath: string) => `Successfully deleted ${filePath}.`,
+    directoryTrashed: (
+      dirPath: string,
+      entryCount: number,
+      fileCount: number
+    ) =>
+      `Successfully deleted ${dirPath} and ${entryCount} entr${
+        entryCount !== 1 ? "ies" : "y"
+      } in it. ${fileCount} file${
+        fileCount !== 1 ? "s were" : " was"
+      } moved to trash and can be restored with restore_from_trash tool (list_trash tool lists them).`,
+    fileTrashed: (filePath: string, id: string) =>
+      `Successfully deleted ${filePath}. It was moved to trash with id ${id} and can be restored with restore_from_trash tool.`,
+    trashListed: (count: number) =>
+      `Found ${count} trash entr${
+        count !== 1 ? "ies" : "y"
+      }. Entries are listed most recent first.`,
+    restoredFromTrash: (id: string, filePath: string) =>
+      `Successfully restored trash entry ${id} to ${filePath}.`,
+    trashEmptied: (count: number) =>
+      `Permanently deleted ${count} trash entr${count !== 1 ? "ies" : "y"}.`,
+    copied: (
+      sourcePath: string,
+      targetPath: string,
+      fileCount: number,
+      bytesCopied: number,
+      skippedCount: number = 0
+    ) =>
+      `Successfully copied ${sourcePath} to ${targetPath} (${fileCount} file${
+        fileCount !== 1 ? "s" : ""
+      }, ${bytesCopied} bytes).${
+        skippedCount > 0
+          ? ` Skipped ${skippedCount} entr${
+              skippedCount !== 1 ? "ies" : "y"
+            } (listed in skippedPaths) which are special files or symbolic links pointing outside of the allowed directories.`
+          : ""
+      }`,
+    directoryCreated: (dirPath: string) =>
+      `Directory ${dirPath} created successfully.`,
+    directoryDeleted: (
+      dirPath: string,
+      entryCount: number,
+      filesLost: boolean = false
+    ) =>
+      `Successfully deleted ${dirPath}${
+        entryCount > 0
+          ? ` and ${entryCount} entr${entryCount !== 1 ? "ies" : "y"} in it`
+          : ""
+      }.${
+        filesLost
+          ? " Trash is not configured for this server, so the deleted files were removed permanently and can not be recovered."
+          : ""
+      }`,
+    linesChanged: (
+      action: string,
+      filePath: string,
+      startLine: number,
+      endLine: number
+    ) => `Successfully ${action} lines ${startLine}-${endLine} in ${filePath}.`,
+    linesInserted: (filePath: string, line: number) =>
+      `Successfully inserted provided text at line ${line} in ${filePath}.`,
+    dryRun: (message: string) =>
+      `Dry run, no changes were written. ${message} Review the diff and re-try without dryRun to apply the change.`,
+    editsApplied: (filePath: string, count: number) =>
+      `Successfully applied ${count} edit operation${
+        count !== 1 ? "s" : ""
+      } in ${filePath}.`,
+    transactionCommitted: (fileCount: number, operationCount: number) =>
+      `Successfully applied ${operationCount} edit operation${
+        operationCount !== 1 ? "s" : ""
+      } across ${fileCount} file${fileCount !== 1 ? "s" : ""}.`,
+    undone: (id: number, description: string) =>
+      `Successfully undid edit ${id} (${description}). It can be re-applied with redo_edit tool.`,
+    redone: (id: number, description: string) =>
+      `Successfully redid edit ${id} (${description}).`,
+    historyListed: (count: number, undoneCount: number) =>
+      `Found ${count} edit${
+        count !== 1 ? "s" : ""
+      } that can be undone and ${undoneCount} undone edit${
+        undoneCount !== 1 ? "s" : ""
+      } that can be redone. Entries are listed most recent first.`,
+    found: (filePath: string, count: number, hasMoreMatches: boolean) =>
+      `Found ${count}${hasMoreMatches ? " (or more)" : ""} match${
+        count !== 1 ? "es" : ""
+      } in ${filePath}.${
+        hasMoreMatches
+          ? " Only first matches are returned. Increase maxMatches or use a more specific searchText to see the rest."
+          : ""
+      }`,
+    foundAcrossFiles: (
+      dirPath: string,
+      count: number,
+      fileCount: number,
+      filesSearched: number,
+      hasMoreMatches: boolean,
+      entriesSkipped: number = 0
+    ) =>
+      `Found ${count}${hasMoreMatches ? " (or more)" : ""} match${
+        count !== 1 ? "es" : ""
+      } in ${fileCount} file${
+        fileCount !== 1 ? "s" : ""
+      } under ${dirPath} (${filesSearched} files searched${
+        entriesSkipped > 0
+          ? `, ${entriesSkipped} unreadable entr${
+              entriesSkipped !== 1 ? "ies" : "y"
+            } skipped`
+          : ""
+      }).${
+        hasMoreMatches
+          ? " Only first matches are returned. Increase maxMatches, narrow includeGlobs or use a more specific searchText to see the rest."
+          : ""
+      }`,
+    listed: (
+      dirPath: string,
+      count: number,
+      truncated: boolean,
+      skippedCount: number = 0
+    ) =>
+      `Listed ${count} entr${count !== 1 ? "ies" : "y"} under ${dirPath}.${
+        skippedCount > 0
+          ? ` ${skippedCount} entr${
+              skippedCount !== 1 ? "ies" : "y"
+            } could not be read and ${
+              skippedCount !== 1 ? "were" : "was"
+            } skipped.`
+          : ""
+      }${
+        truncated
+          ? " The listing was truncated because maxEntries was reached. Increase maxEntries, reduce depth or narrow includeGlobs/excludeGlobs to see the rest."
+          : ""
+      }`,
+    read: (
+      filePath: string,
+      startLine: number,
+      endLine: number,
+      totalLines: number
+    ) =>
+      totalLines === 0
+        ? `File ${filePath} is empty.`
+        : `Successfully read lines ${startLine}-${endLine} of ${totalLines} from ${filePath}.`,
   },
   descriptions: {
     searchAndActionTool: (
@@ -175,6 +593,10 @@ const messages = {
           : " "
       }Does not fail due to formatting differences (whitespaces and new lines). Does not require complex diff format or line number type inputs. Provides targeted guidance to correct yourself if the tool fails.`,
     suggestedParamArray: `If tool invocation fails due to incorrect parameters, this array provides suggested parameter values to help you determine tht correct parameter values. If the array is empty, it is highly recommended to read the file again to determine the correct parameter values`,
+    pathSuggestions:
+      "If the file does not exist, this array lists existing files with similar paths (most similar first) along with their similarity to the provided path (0 to 1).",
+    suggestionDetails:
+      "Besides the suggested value, each suggestion has the 1-based startLine and endLine of the suggested text in the file, its similarity to the provided value (0 to 1, formatting differences ignored), matchType (how it was found: exact, prefix, suffix, mid or combined) and diff, a character level diff from the provided value to the suggested one in which removed text is marked as [-text-] and added text as {+text+}.",
     fileToBeOperatedOn: (actioned: string, expectToExist: boolean) =>
       `Absolute or relative path to the file to be ${actioned}. ${
         expectToExist
@@ -183,6 +605,44 @@ const messages = {
       } .`,
     searchText:
       "Must exist in the file (While searching, formatting mismatches are ignored, for e.g. whitespace and new line differences).",
+    diff: "Unified diff of the change made (or, for dry runs, of the change that would have been made). Diffs of large changes are truncated, ending with a line that starts with '... diff truncated'.",
+    diffContextLines:
+      "Number of unchanged lines to show around each change in the returned diff. Defaults to 3.",
+    changedLineRanges:
+      "1-based line ranges (inclusive) of the changed text in the file after the edit.",
+    expectedHash:
+      "If provided, the change is rejected unless it matches the hash of the current file content (contentHash returned by read_file, search_in_file and the editing tools). Use it to make sure the file has not changed since you last read it.",
+    contentHash:
+      "Hash of the file content after this call. Pass it as expectedHash to the next edit of this file to make sure the file has not changed in between.",
+    normalizeLineEndings:
+      "If true (default), line endings in the text written to the file are converted to the line ending style most common in the file (for e.g. LF to CRLF). Set to false to write the text verbatim.",
+    encoding: `Text encoding of the file, one of ${SUPPORTED_ENCODINGS.join(
+      ", "
+    )}. Detected from the file content (byte order mark or heuristics) when not provided. The encoding and byte order mark of existing files are preserved on write.`,
+    indentation:
+      'If "auto", the indentation of the provided text is re-based to that of the first line of the matched text (anchorText for insertions and moves), keeping the relative indentation of its lines and converting it to the tabs or spaces used in the file. If "verbatim" (default), the text is written as provided.',
+    mode: 'How searchText is matched. "literal" (default) matches the text ignoring formatting differences (whitespaces and new lines). "regex" treats searchText as a JavaScript regular expression matched against the exact file content, and replacementText can refer to capture groups with $1, $2, ... or $<name> ($$ inserts a literal $).',
+    regexFlags:
+      'Flags of the regular expression in regex mode, for e.g. "i" for case insensitive or "m" to make ^ and $ match at line boundaries (^ then also matches after the final line break, at the very end of the file). "g" is always added.',
+    maxMatches:
+      "Safety limit for regex mode. If searchText matches more often than this (default 1000), no changes are made.",
+    substitutions: `Preview of the first (up to ${REGEX_PREVIEW_COUNT}) regex substitutions: 1-based line of the match, matched text and the text it is replaced with.`,
+    expectedContent:
+      "If provided, the current content of the lines must match it (ignoring white space), otherwise the file is left unchanged and their actual content is returned. Use it to make sure the line numbers are not stale.",
+    occurrenceIndex: (searchParam: string) =>
+      `If ${searchParam} matches several times, picks the match at this 1-based position in the file (for e.g. 2 for the second match) instead of failing. Takes precedence over the line hint. Ignored when all matches are actioned.`,
+    nearLine: (searchParam: string) =>
+      `If ${searchParam} matches several times, picks the match closest to this 1-based line number (the earlier one on ties) instead of failing. Ignored when all matches are actioned.`,
+    matchWholeWord:
+      "If true, matches must not start or end in the middle of a word (for e.g. 'id' does not match inside 'width' or 'valid'). Defaults to false.",
+    caseSensitive:
+      "If false, letter case is ignored while matching (for e.g. 'Foo' matches 'foo'). Defaults to true.",
+    dryRun:
+      "If true, performs all matching and validations and returns a unified diff of the change without writing it to the file.",
+    expectedOccurrences:
+      "If provided, the number of searchText matches found in the file must be exactly this number, otherwise the file is left unchanged and the actual count is reported.",
+    historyFilePath:
+      "If provided, only edits that changed this file are considered and the most recent of them is picked. Otherwise the most recent edit of any file is picked. Edits that changed several files together (for e.g. apply_multi_file_edits or move_or_rename_file) are always handled as a whole.",
     actionOnAllMatches: (action: string) =>
       `If true, ${action} all searchText matches. If false, requires exactly one match in the file."`,
   },
@@ -193,6 +653,7 @@ type MatchSpan = {
   flatEndExclusive: number;
   rawStart: number;
   rawEndExclusive: number;
+  matchType?: SuggestionMatchType;
 };
 
 type RawMatch = {
@@ -202,6 +663,8 @@ type RawMatch = {
   matchedLen: number;
 };
 
+type SuggestionMatchType = RawMatch["matchType"] | "exact";
+
 const WHITE_SPACE = /\s/;
 const NOT_WHITE_SPACE = /\S/;
 const WHITE_SPACE_GLOBAL = /\s+/g;
@@ -314,6 +777,73 @@ function replaceBySpan(
   );
 }
 
+type SpanEdit = { rawStart: number; rawEndExclusive: number; text: string };
+
+function sortSpanEdits<T extends SpanEdit>(edits: T[]): T[] {
+  // Insertions (empty spans) go before other edits starting at the same
+  // position. Sort is stable, so equal edits keep their original order.
+  const insertionsFirst = (edit: SpanEdit) =>
+    edit.rawEndExclusive === edit.rawStart ? 0 : 1;
+  return [...edits].sort(
+    (a, b) => a.rawStart - b.rawStart || insertionsFirst(a) - insertionsFirst(b)
+  );
+}
+
+function findOverlappingEdits<T extends SpanEdit>(edits: T[]): [T, T] | null {
+  let furthestEdit: T | null = null;
+  for (const edit of sortSpanEdits(edits)) {
+    if (furthestEdit && edit.rawStart < furthestEdit.rawEndExclusive) {
+      return [furthestEdit, edit];
+    }
+    if (!furthestEdit || edit.rawEndExclusive > furthestEdit.rawEndExclusive) {
+      furthestEdit = edit;
+    }
+  }
+  return null;
+}
+
+function applySpanEdits(
+  rawTextChars: string[],
+  edits: SpanEdit[]
+): {
+  newRawText: string;
+  changedSpans: { rawStart: number; rawEndExclusive: number }[];
+} {
+  // Edits must not overlap. Their spans refer to the original text and
+  // changedSpans refer to the resulting text.
+  const parts: string[] = [];
+  const changedSpans: { rawStart: number; rawEndExclusive: number }[] = [];
+  let lastEndExclusive = 0;
+  let newLength = 0;
+  for (const edit of sortSpanEdits(edits)) {
+    const unchangedChars = rawTextChars.slice(lastEndExclusive, edit.rawStart);
+    parts.push(unchangedChars.join(""));
+    newLength += unchangedChars.length;
+
+    const textLength = Array.from(edit.text).length;
+    parts.push(edit.text);
+    changedSpans.push({
+      rawStart: newLength,
+      rawEndExclusive: newLength + textLength,
+    });
+    newLength += textLength;
+    lastEndExclusive = edit.rawEndExclusive;
+  }
+  parts.push(rawTextChars.slice(lastEndExclusive).join(""));
+  return { newRawText: parts.join(""), changedSpans };
+}
+
+function dropOverlappingSpans(spans: MatchSpan[]): MatchSpan[] {
+  const result: MatchSpan[] = [];
+  for (const span of spans) {
+    const previous = result[result.length - 1];
+    if (!previous || span.rawStart >= previous.rawEndExclusive) {
+      result.push(span);
+    }
+  }
+  return result;
+}
+
 function normalizeText(text: string) {
   return text.replace(WHITE_SPACE_GLOBAL, "");
 }
@@ -373,7 +903,8 @@ function findMatchSpans(
   rawTextChars: string[],
   flatRawToRaw: number[],
   rawToFlatRaw: number[],
-  maxMatches = 3
+  maxMatches = 3,
+  options: MatchOptions = {}
 ): { spans: MatchSpan[]; isExactMatch: boolean } {
   // Handle empty inputs
   if (flatRawText.length === 0) {
@@ -383,12 +914,18 @@ function findMatchSpans(
     return { spans: [], isExactMatch: false };
   }
 
+  if (options.caseSensitive === false) {
+    flatRawText = foldCase(flatRawText);
+    flatSearchText = foldCase(flatSearchText);
+  }
+
   const exactMatches: MatchSpan[] = [];
   let searchStart = 0;
 
   while (searchStart < flatRawText.length && exactMatches.length < maxMatches) {
     const matchIndex = flatRawText.indexOf(flatSearchText, searchStart);
     if (matchIndex === -1) break;
+    searchStart = matchIndex + 1;
 
     const flatStart = matchIndex;
     const flatEndExclusive = matchIndex + flatSearchText.length;
@@ -399,14 +936,17 @@ function findMatchSpans(
       rawTextChars.length
     );
 
+    if (options.matchWholeWord && !isWholeWordSpan(rawTextChars, rawSpan)) {
+      continue;
+    }
+
     exactMatches.push({
       flatStart,
       flatEndExclusive,
       rawStart: rawSpan.rawStart,
       rawEndExclusive: rawSpan.rawEndExclusive,
+      matchType: "exact",
     });
-
-    searchStart = matchIndex + 1;
   }
 
   if (exactMatches.length > 0) {
@@ -425,12 +965,108 @@ function findMatchSpans(
     rawToFlatRaw
   );
 
+  // Suggest whole words (for e.g. "width" for "id") in whole word mode
+  if (options.matchWholeWord) {
+    const wholeWordCandidates = new Map<number, MatchSpan>();
+    for (const candidate of candidates) {
+      const span = expandSpanToWholeWords(
+        candidate,
+        rawTextChars,
+        rawToFlatRaw
+      );
+      if (!wholeWordCandidates.has(span.rawStart)) {
+        wholeWordCandidates.set(span.rawStart, span);
+      }
+    }
+    return {
+      spans: Array.from(wholeWordCandidates.values()),
+      isExactMatch: false,
+    };
+  }
+
   return {
     spans: candidates.map((c) => c),
     isExactMatch: false,
   };
 }
 
+type MatchOptions = { matchWholeWord?: boolean; caseSensitive?: boolean };
+
+const WORD_CHARACTER = /[\p{L}\p{N}_]/u;
+
+function isWordCharacter(char: string | undefined): boolean {
+  return char !== undefined && WORD_CHARACTER.test(char);
+}
+
+/** Lower cases text character by character, keeping offsets unchanged */
+function foldCase(text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const folded = char.toLowerCase();
+      return folded.length === char.length ? folded : char;
+    })
+    .join("");
+}
+
+function isWholeWordSpan(
+  rawTextChars: string[],
+  span: { rawStart: number; rawEndExclusive: number }
+): boolean {
+  const { rawStart, rawEndExclusive } = span;
+  return (
+    !(
+      isWordCharacter(rawTextChars[rawStart]) &&
+      isWordCharacter(rawTextChars[rawStart - 1])
+    ) &&
+    !(
+      isWordCharacter(rawTextChars[rawEndExclusive - 1]) &&
+      isWordCharacter(rawTextChars[rawEndExclusive])
+    )
+  );
+}
+
+/** isWholeWordSpan for UTF-16 offsets of text */
+function isWholeWordMatch(text: string, start: number, end: number): boolean {
+  const charAt = (offset: number) =>
+    offset < text.length
+      ? String.fromCodePoint(text.codePointAt(offset))
+      : undefined;
+  const charBefore = (offset: number) =>
+    Array.from(text.slice(Math.max(0, offset - 2), offset)).pop();
+  return (
+    !(isWordCharacter(charAt(start)) && isWordCharacter(charBefore(start))) &&
+    !(isWordCharacter(charBefore(end)) && isWordCharacter(charAt(end)))
+  );
+}
+
+function expandSpanToWholeWords(
+  span: MatchSpan,
+  rawTextChars: string[],
+  rawToFlatRaw: number[]
+): MatchSpan {
+  let { rawStart, rawEndExclusive } = span;
+  while (
+    isWordCharacter(rawTextChars[rawStart]) &&
+    isWordCharacter(rawTextChars[rawStart - 1])
+  ) {
+    rawStart--;
+  }
+  while (
+    isWordCharacter(rawTextChars[rawEndExclusive - 1]) &&
+    isWordCharacter(rawTextChars[rawEndExclusive])
+  ) {
+    rawEndExclusive++;
+  }
+  return {
+    flatStart: reconstructFlatOffset(rawStart, rawToFlatRaw),
+    flatEndExclusive:
+      reconstructFlatOffset(Math.max(0, rawEndExclusive - 1), rawToFlatRaw) + 1,
+    rawStart,
+    rawEndExclusive,
+    matchType: span.matchType,
+  };
+}
+
 function findPotentialMatches(
   flatRawText: string,
   flatSearchText: string,
@@ -633,7 +1269,7 @@ function findPotentialMatches(
         );
         break;
     }
-    if (candidate) candidates.push(candidate);
+    if (candidate) candidates.push({ ...candidate, matchType: m.matchType });
   }
 
   return candidates;
@@ -1037,10 +1673,14 @@ function generateDisambiguationSuggestionsFromSpans(
   spans: MatchSpan[],
   rawTextChars: string[],
   flatRawText: string,
-  rawToFlatRaw: number[]
-): string[] {
+  rawToFlatRaw: number[],
+  options: MatchOptions = {}
+): { text: string; span: MatchSpan }[] {
   if (spans.length === 0) return [];
 
+  // Suggestions differing only in case would still be ambiguous
+  if (options.caseSensitive === false) flatRawText = foldCase(flatRawText);
+
   const slices = spans.map((span) => ({
     span: { ...span },
     originalSpan: { ...span },
@@ -1090,7 +1730,10 @@ function generateDisambiguationSuggestionsFromSpans(
     }
   } while (duplicatesExist);
 
-  return slices.map((s) => sliceBySpan(rawTextChars, s.span));
+  return slices.map((s) => ({
+    text: sliceBySpan(rawTextChars, s.span),
+    span: { ...s.span, matchType: s.originalSpan.matchType },
+  }));
 }
 
 function expandSpanForDisambiguation(
@@ -1128,1015 +1771,6599 @@ function expandSpanForDisambiguation(
   };
 }
 
-async function validateTextFileToEdit(
-  filePath: string,
-  checkIfBinary: boolean = true
-): Promise<{ success: boolean; message?: string }> {
-  if (!fs.existsSync(filePath)) {
-    return { success: false, message: messages.fileNotExist(filePath) };
+function buildLineStartOffsets(rawTextChars: string[]): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < rawTextChars.length; i++) {
+    const char = rawTextChars[i];
+    if (char === "\n" || (char === "\r" && rawTextChars[i + 1] !== "\n")) {
+      lineStarts.push(i + 1);
+    }
   }
+  return lineStarts;
+}
 
-  try {
-    await fs.promises.access(filePath, fs.constants.R_OK | fs.constants.W_OK);
-  } catch {
-    return { success: false, message: messages.filePermissionError(filePath) };
+function rawOffsetToLineColumn(
+  rawOffset: number,
+  lineStarts: number[]
+): { line: number; column: number } {
+  let lo = 0,
+    hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= rawOffset) lo = mid;
+    else hi = mid - 1;
   }
+  return { line: lo + 1, column: rawOffset - lineStarts[lo] + 1 };
+}
 
-  if (checkIfBinary) {
-    if (await isBinaryFile(filePath)) {
-      return { success: false, message: messages.binaryFileError(filePath) };
+function countLines(rawTextChars: string[], lineStarts: number[]): number {
+  if (rawTextChars.length === 0) return 0;
+  return lineStarts[lineStarts.length - 1] === rawTextChars.length
+    ? lineStarts.length - 1
+    : lineStarts.length;
+}
+
+function sliceLines(
+  rawTextChars: string[],
+  lineStarts: number[],
+  startLine: number,
+  endLine: number
+): string {
+  const rawStart = lineStarts[startLine - 1];
+  const rawEndExclusive =
+    endLine < lineStarts.length ? lineStarts[endLine] : rawTextChars.length;
+  return sliceBySpan(rawTextChars, { rawStart, rawEndExclusive }).replace(
+    /(\r\n|\n|\r)$/,
+    ""
+  );
+}
+
+let allowedRoots: string[] = [];
+
+async function resolveRealPath(targetPath: string): Promise<string> {
+  // Resolve symlinks of the deepest existing ancestor so that paths which
+  // are yet to be created can be checked as well
+  let existingPath = path.resolve(targetPath);
+  const missingSegments: string[] = [];
+  while (true) {
+    try {
+      const realPath = await fs.promises.realpath(existingPath);
+      return path.join(realPath, ...missingSegments.reverse());
+    } catch (err) {
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT" && code !== "ENOTDIR") throw err;
+
+      const parentPath = path.dirname(existingPath);
+      if (parentPath === existingPath) return path.resolve(targetPath);
+      missingSegments.push(path.basename(existingPath));
+      existingPath = parentPath;
     }
   }
+}
 
-  return { success: true };
+async function configureAllowedRoots(roots: string[]) {
+  allowedRoots = await Promise.all(roots.map((r) => resolveRealPath(r)));
 }
 
-function handleSearchTextMatchIssues(
-  spans: MatchSpan[],
-  rawTextChars: string[],
-  flatRawText: string,
-  rawToFlatRaw: number[],
-  message: (p: string) => string,
-  searchPropName: string
-): {
-  success: boolean;
-  result: {
-    message: string;
-    SuggestedParameterValues: {
-      [searchPropName]: string;
-    }[];
-  };
-} {
-  return {
-    success: false,
-    result: {
-      message: message(searchPropName),
-      SuggestedParameterValues: generateDisambiguationSuggestionsFromSpans(
-        spans,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw
-      ).map((s) => ({ [searchPropName]: s })),
-    },
-  };
+async function validatePathIsAllowed(
+  targetPath: string
+): Promise<{ success: boolean; message?: string }> {
+  if (allowedRoots.length === 0) return { success: true };
+
+  const realPath = await resolveRealPath(targetPath);
+  const isAllowed = allowedRoots.some((root) => {
+    const relativePath = path.relative(root, realPath);
+    return (
+      relativePath.split(path.sep)[0] !== ".." && !path.isAbsolute(relativePath)
+    );
+  });
+
+  return isAllowed
+    ? { success: true }
+    : {
+        success: false,
+        message: messages.pathOutsideAllowedRoots(targetPath, allowedRoots),
+      };
 }
 
-async function searchTextAndReplace(
-  p: { filePath?: string; searchText?: string; replacementText?: string },
-  actionAllMatches: boolean,
-  validateReplaceText: boolean
-): Promise<{
-  success: boolean;
-  result: {
-    message: string;
-    SuggestedParameterValues?: { searchText?: string }[];
-  };
-}> {
-  const fileValidation = await validateTextFileToEdit(p.filePath);
-  if (!fileValidation.success) {
-    return { success: false, result: { message: fileValidation.message! } };
+async function writeFileAtomically(filePath: string, data: string | Buffer) {
+  // Write through symbolic links instead of replacing them with a file
+  const targetPath = await resolveRealPath(filePath);
+  const tempPath = path.join(
+    path.dirname(targetPath),
+    `.${path.basename(targetPath)}.${crypto.randomBytes(6).toString("hex")}.tmp`
+  );
+
+  let originalStat: fs.Stats | undefined;
+  try {
+    originalStat = await fs.promises.stat(targetPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
   }
 
-  if (validateReplaceText) {
-    if (p.searchText === p.replacementText)
-      return { success: false, result: { message: messages.identicalText } };
+  try {
+    await fs.promises.writeFile(tempPath, data, "utf-8");
+    const handle = await fs.promises.open(tempPath, "r+");
+    try {
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    if (originalStat) {
+      await fs.promises.chmod(tempPath, originalStat.mode & 0o7777);
+      try {
+        await fs.promises.chown(tempPath, originalStat.uid, originalStat.gid);
+      } catch {
+        // Only privileged users can hand a file over to another owner
+      }
+    }
+
+    await fs.promises.rename(tempPath, targetPath);
+  } catch (err) {
+    await fs.promises.unlink(tempPath).catch(() => undefined);
+    throw err;
   }
+}
 
-  const rawText = await fs.promises.readFile(p.filePath, "utf-8");
-  const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } =
-    buildFlatRawTextHelpers(rawText);
+async function writeTextFile(
+  filePath: string,
+  text: string,
+  fileEncoding: FileEncoding
+) {
+  // Strings are written as UTF-8 as they are, other encodings and BOMs
+  // need the text to be encoded first
+  await writeFileAtomically(
+    filePath,
+    fileEncoding.encoding === "utf-8" && !fileEncoding.bom
+      ? text
+      : encodeText(text, fileEncoding)
+  );
+}
 
-  const { spans, isExactMatch } = findMatchSpans(
-    flatRawText,
-    normalizeText(p.searchText),
-    rawTextChars,
-    flatRawToRaw,
-    rawToFlatRaw
+type HistoryChange =
+  | {
+      type: "content";
+      filePath: string;
+      // Base64 encoded file content, null when the file does not exist
+      before: string | null;
+      after: string | null;
+    }
+  | { type: "rename"; fromPath: string; toPath: string }
+  | {
+      type: "copy";
+      fromPath: string;
+      toPath: string;
+      // Copied files are identified by hash to avoid keeping their content,
+      // copied symbolic links by their target
+      contentHash?: string;
+      linkTarget?: string;
+      // Mode the copied file is given
+      mode?: number;
+      // Applying the change removes the copy instead of creating it
+      removeCopy: boolean;
+    }
+  | {
+      type: "directory";
+      dirPath: string;
+      // Applying the change removes the directory (which must be empty once
+      // the preceding changes were applied) instead of creating it
+      removeDirectory: boolean;
+    };
+
+type HistoryEntry = {
+  id: number;
+  timestamp: string;
+  description: string;
+  changes: HistoryChange[];
+};
+
+const DEFAULT_HISTORY_DEPTH = 50;
+const HISTORY_FILE_NAME = "edit_history.json";
+// Upper bounds for the size of file contents kept in history. Edits
+// of larger files are not recorded, and the oldest edits are dropped once
+// all of them together exceed the total.
+const MAX_HISTORY_SNAPSHOT_SIZE = 1024 * 1024;
+const MAX_HISTORY_SIZE = 32 * 1024 * 1024;
+
+let historyDepth = DEFAULT_HISTORY_DEPTH;
+let historyStateDir: string | undefined;
+let historyEntries: HistoryEntry[] = [];
+let undoneHistoryEntries: HistoryEntry[] = [];
+let nextHistoryEntryId = 1;
+
+// Size in bytes of the file content a snapshot holds
+function snapshotSize(snapshot: string | null): number {
+  return snapshot ? Buffer.byteLength(snapshot, "base64") : 0;
+}
+
+function historyEntrySize(entry: HistoryEntry): number {
+  return entry.changes.reduce(
+    (size, c) =>
+      c.type === "content"
+        ? size + snapshotSize(c.before) + snapshotSize(c.after)
+        : size,
+    0
   );
+}
 
-  if (!isExactMatch || spans.length === 0) {
-    return handleSearchTextMatchIssues(
-      spans,
-      rawTextChars,
-      flatRawText,
-      rawToFlatRaw,
-      messages.noMatchFound,
-      "searchText"
-    );
+function trimToHistoryDepth(entries: HistoryEntry[]): HistoryEntry[] {
+  let start = Math.max(entries.length - historyDepth, 0);
+  let size = entries
+    .slice(start)
+    .reduce((total, e) => total + historyEntrySize(e), 0);
+  while (size > MAX_HISTORY_SIZE && start < entries.length) {
+    size -= historyEntrySize(entries[start++]);
   }
+  return entries.slice(start);
+}
 
-  if (!actionAllMatches && spans.length > 1) {
-    return handleSearchTextMatchIssues(
-      spans,
-      rawTextChars,
-      flatRawText,
-      rawToFlatRaw,
-      messages.multipleMatches,
-      "searchText"
-    );
+/**
+ * Returns the paths changed by a history change. The source of a copy is not
+ * changed by it, so it is not included.
+ */
+function historyChangePaths(change: HistoryChange): string[] {
+  switch (change.type) {
+    case "content":
+      return [change.filePath];
+    case "rename":
+      return [change.fromPath, change.toPath];
+    case "copy":
+      return [change.toPath];
+    case "directory":
+      return [change.dirPath];
   }
+}
 
-  let newRawText = rawText;
+// Path a history change removes, if any
+function historyChangeRemovedPath(change: HistoryChange): string | undefined {
+  switch (change.type) {
+    case "content":
+      return change.after === null ? change.filePath : undefined;
+    case "rename":
+      return change.fromPath;
+    case "copy":
+      return change.removeCopy ? change.toPath : undefined;
+    case "directory":
+      return change.removeDirectory ? change.dirPath : undefined;
+  }
+}
 
-  for (let i = spans.length - 1; i >= 0; i--) {
-    const span = spans[i];
-    newRawText = replaceBySpan(rawTextChars, span, p.replacementText);
-    const replacementTextChars = Array.from(p.replacementText);
-    rawTextChars.splice(
-      span.rawStart,
-      span.rawEndExclusive - span.rawStart,
-      ...replacementTextChars
-    );
+async function computeFileHash(filePath: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    for (;;) {
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, null);
+      if (bytesRead === 0) break;
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+  } finally {
+    await handle.close();
   }
+  return hash.digest("hex");
+}
 
-  await fs.promises.writeFile(p.filePath, newRawText, "utf-8");
-  return {
-    success: true,
-    result: {
-      message: messages.success.replaced(
-        p.replacementText ? "replaced" : "deleted",
-        p.filePath,
-        spans.length
-      ),
-    },
-  };
+async function findHistoryConflict(
+  change: HistoryChange,
+  removedPaths: Set<string>
+): Promise<string | null> {
+  switch (change.type) {
+    case "content":
+      return (await readSnapshot(change.filePath)) !== change.before
+        ? change.filePath
+        : null;
+    case "rename":
+      return !fs.existsSync(change.fromPath)
+        ? change.fromPath
+        : fs.existsSync(change.toPath)
+        ? change.toPath
+        : null;
+    case "copy":
+      if (change.removeCopy) {
+        return (await isUnchangedCopy(change.toPath, change))
+          ? null
+          : change.toPath;
+      }
+      if (fs.existsSync(change.toPath)) return change.toPath;
+      return (await isUnchangedCopy(change.fromPath, change))
+        ? null
+        : change.fromPath;
+    case "directory":
+      if (!change.removeDirectory) {
+        return fs.existsSync(change.dirPath) ? change.dirPath : null;
+      }
+      try {
+        const names = await fs.promises.readdir(change.dirPath);
+        return names.every((name) =>
+          removedPaths.has(path.join(change.dirPath, name))
+        )
+          ? null
+          : change.dirPath;
+      } catch {
+        return change.dirPath;
+      }
+  }
 }
 
-const ReplaceMatchingTextParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
-  searchText: z
-    .string()
-    .describe(
-      "Text to search for matching. " + messages.descriptions.searchText
-    ),
-  replacementText: z
-    .string()
-    .describe(
-      "Text to replace searchText matches with. Should be exactly what you want to write, including formatting"
-    ),
-  replaceAllOccurrencesOfSearchText: z.coerce
-    .boolean()
-    .default(false)
-    .optional()
-    .describe(messages.descriptions.actionOnAllMatches("replaces")),
-};
+async function isUnchangedCopy(
+  filePath: string,
+  change: Extract<HistoryChange, { type: "copy" }>
+): Promise<boolean> {
+  try {
+    return change.linkTarget !== undefined
+      ? (await fs.promises.readlink(filePath)) === change.linkTarget
+      : (await computeFileHash(filePath)) === change.contentHash;
+  } catch {
+    return false;
+  }
+}
 
-const ReplaceMatchingTextParamsParser = z.object(ReplaceMatchingTextParams);
-type ReplaceMatchingTextParamsType = z.infer<
-  typeof ReplaceMatchingTextParamsParser
->;
+function historyEntryPaths(entry: HistoryEntry): string[] {
+  return entry.changes.flatMap(historyChangePaths);
+}
 
-async function replaceMatchingTextImpl(
-  params: ReplaceMatchingTextParamsType
-): Promise<{
-  success: boolean;
-  result: {
-    message: string;
-    SuggestedParameterValues?: { searchText?: string }[];
+function toSnapshot(content: Buffer | null): string | null {
+  return content === null ? null : Buffer.from(content).toString("base64");
+}
+
+async function readSnapshot(filePath: string): Promise<string | null> {
+  if (!fs.existsSync(filePath)) return null;
+  return toSnapshot(await fs.promises.readFile(filePath));
+}
+
+function contentChange(
+  filePath: string,
+  before: Buffer | null,
+  after: Buffer | null
+): HistoryChange {
+  return {
+    type: "content",
+    filePath: path.resolve(filePath),
+    before: toSnapshot(before),
+    after: toSnapshot(after),
   };
-}> {
+}
+
+async function configureEditHistory(options: {
+  depth?: number;
+  stateDir?: string;
+}) {
+  historyDepth = Math.max(options.depth ?? DEFAULT_HISTORY_DEPTH, 0);
+  historyStateDir = options.stateDir
+    ? path.resolve(options.stateDir)
+    : undefined;
+  historyEntries = [];
+  undoneHistoryEntries = [];
+  nextHistoryEntryId = 1;
+
+  if (!historyStateDir) return;
+  const historyFile = path.join(historyStateDir, HISTORY_FILE_NAME);
+  if (!fs.existsSync(historyFile)) return;
   try {
-    const p = ReplaceMatchingTextParamsParser.parse(params);
-    return await searchTextAndReplace(
-      p,
-      p.replaceAllOccurrencesOfSearchText,
-      true
+    const state = JSON.parse(await fs.promises.readFile(historyFile, "utf-8"));
+    historyEntries = trimToHistoryDepth(state.entries ?? []);
+    undoneHistoryEntries = trimToHistoryDepth(state.undoneEntries ?? []);
+    nextHistoryEntryId = state.nextEntryId ?? 1;
+  } catch {
+    // An unreadable history file only means that earlier edits can not be
+    // undone, it must not prevent the server from starting
+  }
+}
+
+async function saveEditHistory() {
+  if (!historyStateDir) return;
+  try {
+    await fs.promises.mkdir(historyStateDir, { recursive: true });
+    await writeFileAtomically(
+      path.join(historyStateDir, HISTORY_FILE_NAME),
+      JSON.stringify({
+        nextEntryId: nextHistoryEntryId,
+        entries: historyEntries,
+        undoneEntries: undoneHistoryEntries,
+      })
     );
-  } catch (err) {
-    return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
-    };
+  } catch {
+    // The edit itself succeeded and history is still kept in memory
   }
 }
 
-const DeleteMatchingTextParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
-  searchText: z
-    .string()
-    .describe(
-      "Text to search for matching. " + messages.descriptions.searchText
-    ),
-  deleteAllOccurrencesOfSearchText: z.coerce
-    .boolean()
-    .default(false)
-    .optional()
-    .describe(messages.descriptions.actionOnAllMatches("deletes")),
+async function recordEdit(description: string, changes: HistoryChange[]) {
+  if (historyDepth === 0) return;
+
+  const entry: HistoryEntry = {
+    id: nextHistoryEntryId++,
+    timestamp: new Date().toISOString(),
+    description,
+    changes,
+  };
+  // A new edit makes undone edits of the same files impossible to redo
+  const changedPaths = new Set(historyEntryPaths(entry));
+  undoneHistoryEntries = undoneHistoryEntries.filter(
+    (e) => !historyEntryPaths(e).some((p) => changedPaths.has(p))
+  );
+  // Contents of large files are not kept, so such an edit can not be undone
+  const fitsInHistory = changes.every(
+    (c) =>
+      c.type !== "content" ||
+      (snapshotSize(c.before) <= MAX_HISTORY_SNAPSHOT_SIZE &&
+        snapshotSize(c.after) <= MAX_HISTORY_SNAPSHOT_SIZE)
+  );
+  if (fitsInHistory) {
+    historyEntries = trimToHistoryDepth([...historyEntries, entry]);
+  }
+  await saveEditHistory();
+}
+
+type TrashReason = "deleted" | "overwritten";
+
+type TrashEntry = {
+  id: string;
+  originalPath: string;
+  reason: TrashReason;
+  trashedAt: string;
+  size: number;
+  mode: number;
 };
 
-const DeleteMatchingTextParamsParser = z.object(DeleteMatchingTextParams);
-type DeleteMatchingTextParamsType = z.infer<
-  typeof DeleteMatchingTextParamsParser
->;
+// Each trashed file is kept as <id>.data along with its metadata in <id>.json
+const TRASH_CONTENT_EXTENSION = ".data";
+const TRASH_METADATA_EXTENSION = ".json";
 
-async function deleteMatchingTextImpl(
-  params: DeleteMatchingTextParamsType
-): Promise<{
-  success: boolean;
-  result: {
-    message: string;
-    SuggestedParameterValues?: { searchText?: string }[];
-  };
-}> {
+let trashDir: string | undefined;
+
+async function configureTrash(options: { trashDir?: string }) {
+  trashDir = options.trashDir ? path.resolve(options.trashDir) : undefined;
+}
+
+function trashEntryPath(id: string, extension: string): string {
+  return path.join(trashDir!, `${id}${extension}`);
+}
+
+async function moveFile(fromPath: string, toPath: string) {
   try {
-    const p = DeleteMatchingTextParamsParser.parse(params);
-    return await searchTextAndReplace(
-      { ...p, ...{ replacementText: "" } },
-      p.deleteAllOccurrencesOfSearchText,
-      false
-    );
+    await fs.promises.rename(fromPath, toPath);
   } catch (err) {
-    return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
-    };
+    // The trash directory may be on another device
+    if ((err as NodeJS.ErrnoException).code !== "EXDEV") throw err;
+    await fs.promises.copyFile(fromPath, toPath, fs.constants.COPYFILE_EXCL);
+    await fs.promises.unlink(fromPath);
   }
 }
 
-const CreateFileParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("created", false)),
-  fileContent: z
-    .string()
-    .optional()
-    .describe("Initial content to write into the file. Defaults to empty."),
-  createMissingDirectories: z
-    .boolean()
-    .optional()
-    .describe("If true, creates missing directories in the file path."),
-};
+/**
+ * Moves a file to be deleted into the trash, or copies a file to be
+ * overwritten in place, when trash is configured. Returns the created entry.
+ */
+async function moveToTrash(
+  filePath: string,
+  reason: TrashReason,
+  removeOriginal: boolean = reason === "deleted"
+): Promise<TrashEntry | undefined> {
+  if (!trashDir) return undefined;
+
+  // Trashed content is only accessible to the user running the server
+  await fs.promises.mkdir(trashDir, { recursive: true, mode: 0o700 });
+  const stats = await fs.promises.stat(filePath);
+  const entry: TrashEntry = {
+    id: `${Date.now()}-${crypto.randomBytes(4).toString("hex")}`,
+    originalPath: path.resolve(filePath),
+    reason,
+    trashedAt: new Date().toISOString(),
+    size: stats.size,
+    mode: stats.mode & 0o7777,
+  };
 
-const CreateFileParamsParser = z.object(CreateFileParams);
-type CreateFileParamsType = z.infer<typeof CreateFileParamsParser>;
+  const contentPath = trashEntryPath(entry.id, TRASH_CONTENT_EXTENSION);
+  if (removeOriginal) {
+    await moveFile(filePath, contentPath);
+  } else {
+    await fs.promises.copyFile(filePath, contentPath);
+  }
+  await fs.promises.writeFile(
+    trashEntryPath(entry.id, TRASH_METADATA_EXTENSION),
+    JSON.stringify(entry),
+    "utf-8"
+  );
+  return entry;
+}
 
-async function createFileImpl(params: CreateFileParamsType) {
-  try {
-    const p = CreateFileParamsParser.parse(params);
+/**
+ * Reads the metadata of all trash entries of files originally within the
+ * allowed roots. Entries of other files (for e.g. trashed by another server
+ * instance sharing the trash directory) are never exposed.
+ */
+async function readTrashEntries(): Promise<TrashEntry[]> {
+  if (!trashDir || !fs.existsSync(trashDir)) return [];
+
+  const entries: TrashEntry[] = [];
+  for (const name of await fs.promises.readdir(trashDir)) {
+    if (!name.endsWith(TRASH_METADATA_EXTENSION)) continue;
+    let entry: TrashEntry;
+    try {
+      entry = JSON.parse(
+        await fs.promises.readFile(path.join(trashDir, name), "utf-8")
+      );
+    } catch {
+      // Metadata of an entry being written or removed concurrently
+      continue;
+    }
+    if ((await validatePathIsAllowed(entry.originalPath)).success) {
+      entries.push(entry);
+    }
+  }
+  return entries.sort((a, b) => b.trashedAt.localeCompare(a.trashedAt));
+}
 
-    const dir = path.dirname(p.filePath);
+async function removeTrashEntry(id: string) {
+  await fs.promises
+    .unlink(trashEntryPath(id, TRASH_CONTENT_EXTENSION))
+    .catch(() => undefined);
+  await fs.promises.unlink(trashEntryPath(id, TRASH_METADATA_EXTENSION));
+}
 
-    if (!fs.existsSync(dir)) {
-      if (p.createMissingDirectories) {
-        fs.mkdirSync(dir, { recursive: true });
-      } else {
-        return {
-          success: false,
-          result: { message: messages.directoryMissing(dir, p.filePath) },
-        };
-      }
+function invertHistoryChanges(changes: HistoryChange[]): HistoryChange[] {
+  return changes
+    .slice()
+    .reverse()
+    .map((c) =>
+      c.type === "content"
+        ? { ...c, before: c.after, after: c.before }
+        : c.type === "rename"
+        ? { ...c, fromPath: c.toPath, toPath: c.fromPath }
+        : c.type === "copy"
+        ? { ...c, removeCopy: !c.removeCopy }
+        : { ...c, removeDirectory: !c.removeDirectory }
+    );
+}
+
+async function applyHistoryChanges(
+  changes: HistoryChange[],
+  action: string
+): Promise<{ success: boolean; message?: string }> {
+  // Verify every file is still in the recorded state before changing any,
+  // so that edits made outside of this server are never overwritten
+  const removedPaths = new Set<string>();
+  for (const change of changes) {
+    const checkedPaths = [
+      ...historyChangePaths(change),
+      ...(change.type === "copy" ? [change.fromPath] : []),
+    ];
+    for (const filePath of checkedPaths) {
+      const pathValidation = await validatePathIsAllowed(filePath);
+      if (!pathValidation.success) return pathValidation;
     }
 
-    if (fs.existsSync(p.filePath)) {
+    const conflictPath = await findHistoryConflict(change, removedPaths);
+    if (conflictPath) {
       return {
         success: false,
-        result: {
-          message: messages.fileAlreadyExists(p.filePath),
-        },
+        message: messages.historyConflict(conflictPath, action),
       };
     }
+    const removedPath = historyChangeRemovedPath(change);
+    if (removedPath) removedPaths.add(removedPath);
+  }
 
-    await fs.promises.writeFile(p.filePath, p.fileContent || "", "utf-8");
-    return {
-      success: true,
-      result: { message: messages.success.created(p.filePath) },
-    };
-  } catch (err) {
-    return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
-    };
+  for (const change of changes) {
+    if (change.type === "directory") {
+      if (change.removeDirectory) {
+        await fs.promises.rmdir(change.dirPath);
+      } else {
+        fs.mkdirSync(change.dirPath, { recursive: true });
+      }
+      continue;
+    }
+
+    const targetPath =
+      change.type === "content" ? change.filePath : change.toPath;
+    if (
+      (change.type === "content" && change.after === null) ||
+      (change.type === "copy" && change.removeCopy)
+    ) {
+      await fs.promises.unlink(targetPath);
+      continue;
+    }
+
+    const dir = path.dirname(targetPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    if (change.type === "content") {
+      await writeFileAtomically(
+        change.filePath,
+        Buffer.from(change.after, "base64")
+      );
+    } else if (change.type === "rename") {
+      await fs.promises.rename(change.fromPath, change.toPath);
+    } else if (change.linkTarget !== undefined) {
+      await fs.promises.symlink(change.linkTarget, change.toPath);
+    } else {
+      await fs.promises.copyFile(
+        change.fromPath,
+        change.toPath,
+        fs.constants.COPYFILE_EXCL
+      );
+      if (change.mode !== undefined) {
+        await fs.promises.chmod(change.toPath, change.mode);
+      }
+    }
   }
+  return { success: true };
 }
 
-const OverwriteFileContentParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
-  fileContent: z
-    .string()
-    .describe(
-      "New content to write into the file. Will completely replace existing content."
-    ),
-};
-
-const OverwriteFileContentParamsParser = z.object(OverwriteFileContentParams);
-type OverwriteFileContentParamsType = z.infer<
-  typeof OverwriteFileContentParamsParser
->;
+type DiffLine = { type: " " | "-" | "+"; text: string };
 
-async function overwriteFileContentImpl(
-  params: OverwriteFileContentParamsType
-) {
-  try {
-    const p = OverwriteFileContentParamsParser.parse(params);
+// Upper bound for the LCS table, beyond which changed blocks are reported as
+// a whole block removal followed by a whole block insertion
+const MAX_DIFF_LCS_CELLS = 4_000_000;
 
-    const fileValidation = await validateTextFileToEdit(p.filePath);
-    if (!fileValidation.success) {
-      return { success: false, result: { message: fileValidation.message! } };
-    }
+// Upper bounds for a returned diff, so that rewriting a large file does not
+// flood the response. changedLineRanges still cover the whole change.
+const MAX_DIFF_LINES = 500;
+const MAX_DIFF_CHARS = 50_000;
 
-    await fs.promises.writeFile(p.filePath, p.fileContent, "utf-8");
-    return {
-      success: true,
-      result: { message: messages.success.overwritten(p.filePath) },
-    };
-  } catch (err) {
-    return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
-    };
-  }
+function splitLinesKeepingEndings(text: string): string[] {
+  return text.match(/[^\r\n]*(?:\r\n|\n|\r)|[^\r\n]+$/g) ?? [];
 }
 
-const AppendTextToFileParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
-  appendText: z.string().describe("Text to append to the end of the file."),
-  addNewLineBeforeAppending: z.coerce
-    .boolean()
-    .default(true)
-    .optional()
-    .describe(
-      "If true, ensures a newline is added before appending the provided text. If file is already ending with a newLine this flag is ignored."
-    ),
-};
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let prefixLen = 0;
+  while (
+    prefixLen < oldLines.length &&
+    prefixLen < newLines.length &&
+    oldLines[prefixLen] === newLines[prefixLen]
+  ) {
+    prefixLen++;
+  }
 
-const AppendTextToFileParamsParser = z.object(AppendTextToFileParams);
-type AppendTextToFileParamsType = z.infer<typeof AppendTextToFileParamsParser>;
+  let suffixLen = 0;
+  while (
+    suffixLen < oldLines.length - prefixLen &&
+    suffixLen < newLines.length - prefixLen &&
+    oldLines[oldLines.length - 1 - suffixLen] ===
+      newLines[newLines.length - 1 - suffixLen]
+  ) {
+    suffixLen++;
+  }
 
-async function appendTextToFileImpl(params: AppendTextToFileParamsType) {
-  try {
-    const p = AppendTextToFileParamsParser.parse(params);
+  const oldMiddle = oldLines.slice(prefixLen, oldLines.length - suffixLen);
+  const newMiddle = newLines.slice(prefixLen, newLines.length - suffixLen);
+  const result: DiffLine[] = oldLines
+    .slice(0, prefixLen)
+    .map((text) => ({ type: " ", text }));
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_LCS_CELLS) {
+    result.push(...oldMiddle.map((text) => ({ type: "-" as const, text })));
+    result.push(...newMiddle.map((text) => ({ type: "+" as const, text })));
+  } else {
+    const n = oldMiddle.length,
+      m = newMiddle.length;
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    const at = (i: number, j: number) => i * (m + 1) + j;
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[at(i, j)] =
+          oldMiddle[i] === newMiddle[j]
+            ? lcs[at(i + 1, j + 1)] + 1
+            : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+      }
+    }
 
-    const fileValidation = await validateTextFileToEdit(p.filePath);
-    if (!fileValidation.success) {
-      return { success: false, result: { message: fileValidation.message! } };
+    let i = 0,
+      j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: " ", text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (j === m || (i < n && lcs[at(i + 1, j)] >= lcs[at(i, j + 1)])) {
+        result.push({ type: "-", text: oldMiddle[i] });
+        i++;
+      } else {
+        result.push({ type: "+", text: newMiddle[j] });
+        j++;
+      }
     }
+  }
 
-    let content = await fs.promises.readFile(p.filePath, "utf-8");
+  result.push(
+    ...oldLines
+      .slice(oldLines.length - suffixLen)
+      .map((text) => ({ type: " " as const, text }))
+  );
+  return result;
+}
 
-    if (p.addNewLineBeforeAppending) {
-      const lineEndingMatch = content.match(/\r\n|\n|\r/);
-      const lineEnding = lineEndingMatch ? lineEndingMatch[0] : "\n";
-      if (!content.endsWith(lineEnding)) content += lineEnding;
+function createUnifiedDiff(
+  filePath: string,
+  oldText: string,
+  newText: string,
+  contextLines: number = 3
+): string {
+  if (oldText === newText) return "";
+
+  const lines = diffLines(
+    splitLinesKeepingEndings(oldText),
+    splitLinesKeepingEndings(newText)
+  );
+
+  // 1-based line numbers of every diff line in the old and new text
+  const oldLineNos: number[] = [];
+  const newLineNos: number[] = [];
+  let oldLineNo = 1,
+    newLineNo = 1;
+  const changeIndices: number[] = [];
+  lines.forEach((line, idx) => {
+    oldLineNos.push(oldLineNo);
+    newLineNos.push(newLineNo);
+    if (line.type !== "+") oldLineNo++;
+    if (line.type !== "-") newLineNo++;
+    if (line.type !== " ") changeIndices.push(idx);
+  });
+
+  const output = [`--- ${filePath}`, `+++ ${filePath}`];
+  let c = 0;
+  while (c < changeIndices.length) {
+    const hunkStart = Math.max(0, changeIndices[c] - contextLines);
+    let hunkEnd = Math.min(lines.length, changeIndices[c] + contextLines + 1);
+    c++;
+    while (
+      c < changeIndices.length &&
+      changeIndices[c] - contextLines <= hunkEnd
+    ) {
+      hunkEnd = Math.min(lines.length, changeIndices[c] + contextLines + 1);
+      c++;
     }
 
-    content += p.appendText;
+    const hunkLines = lines.slice(hunkStart, hunkEnd);
+    const oldCount = hunkLines.filter((l) => l.type !== "+").length;
+    const newCount = hunkLines.filter((l) => l.type !== "-").length;
+    const oldStart = oldLineNos[hunkStart] - (oldCount === 0 ? 1 : 0);
+    const newStart = newLineNos[hunkStart] - (newCount === 0 ? 1 : 0);
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunkLines) {
+      const text = line.text.replace(/(\r\n|\n|\r)$/, "");
+      output.push(line.type + text);
+      if (text === line.text) output.push("\\ No newline at end of file");
+    }
+  }
 
-    await fs.promises.writeFile(p.filePath, content, "utf-8");
-    return {
-      success: true,
-      result: { message: messages.success.appended(p.filePath) },
-    };
-  } catch (err) {
-    return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
-    };
+  let keptLineCount = 0;
+  let charCount = 0;
+  while (
+    keptLineCount < output.length &&
+    keptLineCount < MAX_DIFF_LINES &&
+    charCount + output[keptLineCount].length + 1 <= MAX_DIFF_CHARS
+  ) {
+    charCount += output[keptLineCount].length + 1;
+    keptLineCount++;
   }
+  if (keptLineCount < output.length) {
+    return [
+      ...output.slice(0, keptLineCount),
+      messages.diffTruncated(output.length - keptLineCount),
+    ].join("\n");
+  }
+  return output.join("\n");
 }
 
-const InsertTextParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
-  textToBeInserted: z
-    .string()
-    .describe("Text to insert relative to the anchorText match."),
-  anchorText: z
-    .string()
-    .describe(
-      "Anchor text to search. " +
-        messages.descriptions.searchText +
-        " Provided textToBeInserted is inserted *relative* to this match. Requires exactly one anchorText match in the file."
-    ),
-  positionRelativeToAnchorText: z
-    .enum(["before", "after"])
-    .describe(
-      "Whether to insert the text before or after the matched anchorText."
-    ),
+type ChangedLineRange = { startLine: number; endLine: number };
+
+function spansToLineRanges(
+  newText: string,
+  changedSpans: { rawStart: number; rawEndExclusive: number }[]
+): ChangedLineRange[] {
+  const lineStarts = buildLineStartOffsets(Array.from(newText));
+  return changedSpans.map((span) => ({
+    startLine: rawOffsetToLineColumn(span.rawStart, lineStarts).line,
+    // Empty spans (for e.g. deletions) are reported as the line they are on
+    endLine: rawOffsetToLineColumn(
+      Math.max(span.rawStart, span.rawEndExclusive - 1),
+      lineStarts
+    ).line,
+  }));
+}
 
-  anchorBlockStartMarker: z
-    .string()
+const EditOptionsParams = {
+  dryRun: z.coerce
+    .boolean()
+    .default(false)
     .optional()
-    .describe(
-      "If provided, restricts anchorText to after the start of this marker. Match(es) must exist in the file. First matched anchorBlockStartMarker is used."
-    ),
-
-  anchorBlockEndMarker: z
+    .describe(messages.descriptions.dryRun),
+  diffContextLines: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(3)
+    .optional()
+    .describe(messages.descriptions.diffContextLines),
+  expectedHash: z
     .string()
     .optional()
-    .describe(
-      "If provided, restricts anchorText to before the end of this marker. Match(es) must exist in the file. Last matched anchorBlockEndMarker is used."
-    ),
-  addNewLine: z
+    .describe(messages.descriptions.expectedHash),
+  normalizeLineEndings: z.coerce
+    .boolean()
+    .default(true)
+    .optional()
+    .describe(messages.descriptions.normalizeLineEndings),
+  encoding: z
+    .enum(SUPPORTED_ENCODINGS)
+    .optional()
+    .describe(messages.descriptions.encoding),
+};
+
+const MatchOptionsParams = {
+  matchWholeWord: z.coerce
     .boolean()
     .default(false)
     .optional()
-    .describe(
-      "If true, ensures a newline separation between the anchorText and textToBeInserted."
-    ),
+    .describe(messages.descriptions.matchWholeWord),
+  caseSensitive: z.coerce
+    .boolean()
+    .default(true)
+    .optional()
+    .describe(messages.descriptions.caseSensitive),
 };
 
-const InsertTextParamsParser = z.object(InsertTextParams);
-type InsertTextParamsType = z.infer<typeof InsertTextParamsParser>;
+const EditResultOutputSchema = {
+  diff: z.string().optional().describe(messages.descriptions.diff),
+  changedLineRanges: z
+    .array(z.object({ startLine: z.number(), endLine: z.number() }))
+    .optional()
+    .describe(messages.descriptions.changedLineRanges),
+  contentHash: z
+    .string()
+    .optional()
+    .describe(messages.descriptions.contentHash),
+  warning: z.string().optional(),
+};
 
-async function insertTextImpl(params: InsertTextParamsType): Promise<{
+const PathSuggestionsOutputSchema = z
+  .array(z.record(z.union([z.string(), z.number()])))
+  .optional()
+  .describe(messages.descriptions.pathSuggestions);
+
+function computeContentHash(text: string): string {
+  return crypto.createHash("sha256").update(text, "utf-8").digest("hex");
+}
+
+type ProposedEdit = {
+  newRawText: string;
+  changedSpans: { rawStart: number; rawEndExclusive: number }[];
+};
+
+/**
+ * Checks expectedHash against the content just read, before any text is
+ * searched, so that a stale file is reported as changed instead of as not
+ * containing the searched text. The diff of the edit is included when it can
+ * still be resolved against the current content.
+ */
+function fileChangedSinceReadIssue(
+  p: { filePath?: string; expectedHash?: string; diffContextLines?: number },
+  rawText: string,
+  proposeEdit: () => ProposedEdit | undefined
+):
+  | {
+      success: false;
+      result: {
+        message: string;
+        contentHash: string;
+        diff?: string;
+        changedLineRanges?: ChangedLineRange[];
+      };
+    }
+  | undefined {
+  if (!p.expectedHash) return undefined;
+  const contentHash = computeContentHash(rawText);
+  if (contentHash === p.expectedHash) return undefined;
+
+  const proposedEdit = proposeEdit();
+  return {
+    success: false,
+    result: {
+      message: messages.fileChangedSinceRead(p.filePath),
+      contentHash,
+      ...(proposedEdit
+        ? {
+            diff: createUnifiedDiff(
+              p.filePath,
+              rawText,
+              proposedEdit.newRawText,
+              p.diffContextLines ?? 3
+            ),
+            changedLineRanges: spansToLineRanges(
+              proposedEdit.newRawText,
+              proposedEdit.changedSpans
+            ),
+          }
+        : {}),
+    },
+  };
+}
+
+async function completeEdit(
+  p: {
+    filePath?: string;
+    dryRun?: boolean;
+    diffContextLines?: number;
+  },
+  oldText: string,
+  newText: string,
+  changedSpans: { rawStart: number; rawEndExclusive: number }[],
+  message: string,
+  fileEncoding: FileEncoding,
+  trashOriginal: boolean = false
+): Promise<{
   success: boolean;
   result: {
     message: string;
-    SuggestedParameterValues?: {
-      anchorText?: string;
-      anchorBlockStartMarker?: string;
-      anchorBlockEndMarker?: string;
-    }[];
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
   };
 }> {
-  try {
-    const p = InsertTextParamsParser.parse(params);
+  const diff = createUnifiedDiff(
+    p.filePath,
+    oldText,
+    newText,
+    p.diffContextLines ?? 3
+  );
+  const changedLineRanges = spansToLineRanges(newText, changedSpans);
+  const oldHash = computeContentHash(oldText);
+  const warning = detectLineEndings(oldText).mixed
+    ? messages.mixedLineEndings(p.filePath)
+    : undefined;
+
+  const unencodableCharacter = findUnencodableCharacter(
+    newText,
+    fileEncoding.encoding
+  );
+  if (unencodableCharacter !== undefined) {
+    return {
+      success: false,
+      result: {
+        message: messages.unencodableText(
+          p.filePath,
+          fileEncoding.encoding,
+          unencodableCharacter
+        ),
+      },
+    };
+  }
 
-    const fileValidation = await validateTextFileToEdit(p.filePath);
-    if (!fileValidation.success) {
-      return { success: false, result: { message: fileValidation.message! } };
-    }
+  if (p.dryRun) {
+    return {
+      success: true,
+      result: {
+        message: messages.success.dryRun(message),
+        diff,
+        changedLineRanges,
+        contentHash: oldHash,
+        ...(warning ? { warning } : {}),
+      },
+    };
+  }
 
-    const rawText = await fs.promises.readFile(p.filePath, "utf-8");
-    const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } =
-      buildFlatRawTextHelpers(rawText);
+  // The file may have been changed by someone else while the edit was
+  // being computed
+  if (
+    (await readTextFile(p.filePath, fileEncoding.encoding)).text !== oldText
+  ) {
+    return {
+      success: false,
+      result: { message: messages.fileChangedDuringEdit(p.filePath) },
+    };
+  }
 
-    let blockStartSpan: MatchSpan = null;
-    if (p.anchorBlockStartMarker) {
-      const startMatches = findMatchSpans(
-        flatRawText,
-        normalizeText(p.anchorBlockStartMarker),
-        rawTextChars,
-        flatRawToRaw,
-        rawToFlatRaw
-      );
+  if (trashOriginal) await moveToTrash(p.filePath!, "overwritten");
+  await writeTextFile(p.filePath, newText, fileEncoding);
+  await recordEdit(message, [
+    contentChange(
+      p.filePath,
+      encodeText(oldText, fileEncoding),
+      encodeText(newText, fileEncoding)
+    ),
+  ]);
+  return {
+    success: true,
+    result: {
+      message,
+      diff,
+      changedLineRanges,
+      contentHash: computeContentHash(newText),
+      ...(warning ? { warning } : {}),
+    },
+  };
+}
 
-      if (!startMatches.isExactMatch || startMatches.spans.length === 0) {
-        return handleSearchTextMatchIssues(
-          startMatches.spans,
-          rawTextChars,
-          flatRawText,
-          rawToFlatRaw,
-          messages.noMatchFound,
-          "anchorBlockStartMarker"
-        );
-      }
+const MAX_PATH_SUGGESTIONS = 5;
+const MIN_PATH_SIMILARITY = 0.6;
 
-      blockStartSpan = startMatches.spans[0];
-    }
+function removeExtension(name: string): string {
+  const ext = path.extname(name);
+  return ext ? name.slice(0, -ext.length) : name;
+}
 
-    let blockEndSpan: MatchSpan = null;
-    if (p.anchorBlockEndMarker) {
-      const endMatches = findMatchSpans(
-        flatRawText,
-        normalizeText(p.anchorBlockEndMarker),
-        rawTextChars,
-        flatRawToRaw,
-        rawToFlatRaw
-      );
+function computeNameSimilarity(name: string, wantedName: string): number {
+  if (name === wantedName) return 1;
+  const lowerName = name.toLowerCase();
+  const lowerWantedName = wantedName.toLowerCase();
+  if (lowerName === lowerWantedName) return 0.95;
+  // Missing or different extension
+  if (removeExtension(lowerName) === removeExtension(lowerWantedName)) {
+    return 0.9;
+  }
+  return computeSimilarity(lowerName, lowerWantedName);
+}
 
-      const validEndSpans = endMatches.spans.filter(
-        (e) => e.rawStart >= blockStartSpan.rawEndExclusive
-      );
+async function readDirectoryEntries(dirPath: string): Promise<fs.Dirent[]> {
+  try {
+    return await fs.promises.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
 
-      if (!endMatches.isExactMatch || validEndSpans.length === 0) {
-        return handleSearchTextMatchIssues(
-          endMatches.spans,
-          rawTextChars,
-          flatRawText,
-          rawToFlatRaw,
-          messages.noMatchFound,
-          "anchorBlockEndMarker"
+/**
+ * Finds existing files whose path is similar to a path that does not exist.
+ * Missing directories are resolved one level at a time against similarly
+ * named directories of the nearest existing ancestor. When only the file is
+ * missing, the sub-directories and sibling directories of its parent are
+ * searched as well since the file may have been placed one level off.
+ */
+async function suggestSimilarPaths(
+  filePath: string
+): Promise<{ path: string; similarity: number }[]> {
+  const missingSegments = [path.basename(filePath)];
+  let existingDir = path.dirname(filePath);
+  while (!fs.existsSync(existingDir)) {
+    const parentDir = path.dirname(existingDir);
+    if (parentDir === existingDir) return [];
+    missingSegments.unshift(path.basename(existingDir));
+    existingDir = parentDir;
+  }
+
+  let candidates = [{ path: existingDir, similarity: 1 }];
+  for (let i = 0; i < missingSegments.length; i++) {
+    const isFileSegment = i === missingSegments.length - 1;
+    const nextCandidates: typeof candidates = [];
+    for (const candidate of candidates) {
+      for (const entry of await readDirectoryEntries(candidate.path)) {
+        if (isFileSegment ? !entry.isFile() : !entry.isDirectory()) continue;
+        const similarity = computeNameSimilarity(
+          entry.name,
+          missingSegments[i]
         );
+        if (similarity < MIN_PATH_SIMILARITY) continue;
+        nextCandidates.push({
+          path: path.join(candidate.path, entry.name),
+          similarity: Math.min(candidate.similarity, similarity),
+        });
       }
+    }
+    candidates = nextCandidates
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, MAX_PATH_SUGGESTIONS);
+  }
 
-      blockEndSpan = validEndSpans[validEndSpans.length - 1];
+  if (missingSegments.length === 1) {
+    const nearbyDirs = [
+      ...(await readDirectoryEntries(existingDir))
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(existingDir, entry.name)),
+      ...(await readDirectoryEntries(path.dirname(existingDir)))
+        .filter(
+          (entry) =>
+            entry.isDirectory() && entry.name !== path.basename(existingDir)
+        )
+        .map((entry) => path.join(path.dirname(existingDir), entry.name)),
+    ];
+    for (const dir of nearbyDirs) {
+      for (const entry of await readDirectoryEntries(dir)) {
+        if (!entry.isFile()) continue;
+        // Files in other directories are ranked below equally named siblings
+        const similarity =
+          computeNameSimilarity(entry.name, missingSegments[0]) * 0.9;
+        if (similarity < MIN_PATH_SIMILARITY) continue;
+        candidates.push({ path: path.join(dir, entry.name), similarity });
+      }
     }
+  }
 
-    const allSearchMatches = findMatchSpans(
-      flatRawText,
-      normalizeText(p.anchorText),
-      rawTextChars,
-      flatRawToRaw,
-      rawToFlatRaw
-    );
+  const suggestions: { path: string; similarity: number }[] = [];
+  for (const candidate of candidates.sort(
+    (a, b) => b.similarity - a.similarity
+  )) {
+    if (suggestions.length === MAX_PATH_SUGGESTIONS) break;
+    if (suggestions.some((s) => s.path === candidate.path)) continue;
+    if (!(await validatePathIsAllowed(candidate.path)).success) continue;
+    suggestions.push({
+      path: candidate.path,
+      similarity: Math.round(candidate.similarity * 100) / 100,
+    });
+  }
+  return suggestions;
+}
+
+async function fileNotExistIssue(
+  filePath: string,
+  paramName: string = "filePath"
+): Promise<{
+  success: false;
+  message: string;
+  SuggestedParameterValues?: SuggestedParameterValue[];
+}> {
+  const suggestions = await suggestSimilarPaths(filePath);
+  if (suggestions.length === 0) {
+    return { success: false, message: messages.fileNotExist(filePath) };
+  }
+  return {
+    success: false,
+    message: messages.fileNotExistWithSuggestions(filePath, paramName),
+    SuggestedParameterValues: suggestions.map((s) => ({
+      [paramName]: s.path,
+      similarity: s.similarity,
+    })),
+  };
+}
+
+async function validateTextFileToEdit(
+  filePath: string,
+  checkIfBinary: boolean = true,
+  requireWriteAccess: boolean = true
+): Promise<{
+  success: boolean;
+  message?: string;
+  SuggestedParameterValues?: SuggestedParameterValue[];
+}> {
+  const pathValidation = await validatePathIsAllowed(filePath);
+  if (!pathValidation.success) return pathValidation;
+
+  if (!fs.existsSync(filePath)) return fileNotExistIssue(filePath);
 
-    let blockStartOffset = blockStartSpan ? blockStartSpan.rawStart : 0;
-    let blockEndOffset = blockEndSpan
-      ? blockEndSpan.rawEndExclusive
-      : rawTextChars.length;
-    const searchMatchesInBlock = allSearchMatches.spans.filter(
-      (s) =>
-        s.rawStart >= blockStartOffset && s.rawEndExclusive <= blockEndOffset
+  try {
+    await fs.promises.access(
+      filePath,
+      requireWriteAccess
+        ? fs.constants.R_OK | fs.constants.W_OK
+        : fs.constants.R_OK
     );
+  } catch {
+    return { success: false, message: messages.filePermissionError(filePath) };
+  }
 
-    if (!allSearchMatches.isExactMatch || searchMatchesInBlock.length === 0) {
-      return handleSearchTextMatchIssues(
-        searchMatchesInBlock,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw,
-        messages.noMatchFound,
-        "anchorText"
-      );
+  if (checkIfBinary) {
+    if (await isBinaryFile(filePath)) {
+      return { success: false, message: messages.binaryFileError(filePath) };
     }
+  }
 
-    if (searchMatchesInBlock.length > 1) {
-      return handleSearchTextMatchIssues(
-        searchMatchesInBlock,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw,
-        messages.multipleMatches,
-        "anchorText"
-      );
+  return { success: true };
+}
+
+function handleSearchTextMatchIssues(
+  spans: MatchSpan[],
+  rawTextChars: string[],
+  flatRawText: string,
+  rawToFlatRaw: number[],
+  message: (p: string) => string,
+  searchPropName: string,
+  searchText: string,
+  options: MatchOptions = {}
+): {
+  success: boolean;
+  result: {
+    message: string;
+    SuggestedParameterValues: SuggestedParameterValue[];
+  };
+} {
+  const suggestions = generateDisambiguationSuggestionsFromSpans(
+    spans,
+    rawTextChars,
+    flatRawText,
+    rawToFlatRaw,
+    options
+  );
+  const lineStarts =
+    suggestions.length > 0 ? buildLineStartOffsets(rawTextChars) : [];
+  const comparable = (text: string) =>
+    options.caseSensitive === false ? foldCase(text) : text;
+
+  return {
+    success: false,
+    result: {
+      message: message(searchPropName),
+      SuggestedParameterValues: suggestions.map(({ text, span }) => ({
+        [searchPropName]: text,
+        startLine: rawOffsetToLineColumn(span.rawStart, lineStarts).line,
+        endLine: rawOffsetToLineColumn(
+          Math.max(span.rawStart, span.rawEndExclusive - 1),
+          lineStarts
+        ).line,
+        similarity:
+          Math.round(
+            computeSimilarity(
+              comparable(normalizeText(text)),
+              comparable(normalizeText(searchText))
+            ) * 100
+          ) / 100,
+        matchType: span.matchType ?? "exact",
+        diff: diffCharacters(
+          collapseWhiteSpace(searchText),
+          collapseWhiteSpace(text)
+        ),
+      })),
+    },
+  };
+}
+
+type SuggestedParameterValue = { [param: string]: string | number };
+
+function collapseWhiteSpace(text: string): string {
+  return text.replace(WHITE_SPACE_GLOBAL, " ").trim();
+}
+
+/**
+ * Character level diff of two texts, marking removed text as [-text-] and
+ * added text as {+text+}.
+ */
+function diffCharacters(oldText: string, newText: string): string {
+  let diff = "";
+  let runType: DiffLine["type"] = " ";
+  let run = "";
+  const flushRun = () => {
+    if (runType === "-") diff += `[-${run}-]`;
+    else if (runType === "+") diff += `{+${run}+}`;
+    else diff += run;
+    run = "";
+  };
+
+  for (const { type, text } of diffLines(
+    Array.from(oldText),
+    Array.from(newText)
+  )) {
+    if (type !== runType) {
+      flushRun();
+      runType = type;
     }
+    run += text;
+  }
+  flushRun();
+  return diff;
+}
 
-    const span = searchMatchesInBlock[0];
-    const insertionPoint =
-      p.positionRelativeToAnchorText === "before"
-        ? span.rawStart
-        : span.rawEndExclusive;
+type OccurrenceSelection = { occurrenceIndex?: number; nearLine?: number };
+
+const OCCURRENCE_SELECTION_PARAMS = {
+  occurrenceIndex: "occurrenceIndex",
+  nearLine: "nearLine",
+};
 
-    let textToInsert = p.textToBeInserted;
-    if (p.addNewLine) {
-      const lineEndingMatch = rawText.match(/\r\n|\n|\r/);
-      const lineEnding = lineEndingMatch ? lineEndingMatch[0] : "\n";
-      textToInsert =
-        p.positionRelativeToAnchorText === "before"
-          ? textToInsert + lineEnding
-          : lineEnding + textToInsert;
+/**
+ * Picks the match selected by occurrenceIndex or nearLine. Without either of
+ * them, multiple matches are reported via onMultipleMatches with the line of
+ * each match.
+ */
+function selectOccurrence<
+  T extends { rawStart: number; rawEndExclusive: number }
+>(
+  rawText: string,
+  spans: T[],
+  selection: OccurrenceSelection,
+  paramNames: typeof OCCURRENCE_SELECTION_PARAMS,
+  onMultipleMatches: (lines: number[]) => EditsResolution["result"]
+): { success: boolean; span?: T; result?: EditsResolution["result"] } {
+  const lineRanges = spansToLineRanges(rawText, spans);
+
+  if (selection.occurrenceIndex !== undefined) {
+    if (selection.occurrenceIndex > spans.length) {
+      return {
+        success: false,
+        result: {
+          message: messages.occurrenceIndexOutOfRange(
+            paramNames.occurrenceIndex,
+            selection.occurrenceIndex,
+            spans.length
+          ),
+        },
+      };
     }
+    return { success: true, span: spans[selection.occurrenceIndex - 1] };
+  }
 
-    const newRawText = replaceBySpan(
-      rawTextChars,
-      { rawStart: insertionPoint, rawEndExclusive: insertionPoint },
-      textToInsert
-    );
+  if (selection.nearLine !== undefined) {
+    const distance = (range: ChangedLineRange) =>
+      Math.max(
+        0,
+        range.startLine - selection.nearLine,
+        selection.nearLine - range.endLine
+      );
+    let closest = 0;
+    lineRanges.forEach((range, i) => {
+      if (distance(range) < distance(lineRanges[closest])) closest = i;
+    });
+    return { success: true, span: spans[closest] };
+  }
 
-    await fs.promises.writeFile(p.filePath, newRawText, "utf-8");
-    return {
-      success: true,
-      result: {
-        message: `Successfully inserted provided text ${p.positionRelativeToAnchorText} the matched anchorText in ${p.filePath}.`,
-      },
-    };
-  } catch (err) {
+  if (spans.length > 1) {
     return {
       success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
+      result: onMultipleMatches(lineRanges.map((range) => range.startLine)),
     };
   }
+  return { success: true, span: spans[0] };
 }
 
-const MoveTextParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
-  textToBeMoved: z
-    .string()
-    .describe(
-      "Text to be found and moved relative to the anchorText match." +
-        messages.descriptions.searchText
-    ),
-  anchorText: z
-    .string()
-    .describe(
-      "Anchor text to search. " +
-        messages.descriptions.searchText +
-        " Provided textToBeMoved is placed *relative* to this match. Requires exactly one anchorText match in the file."
-    ),
-  positionRelativeToAnchorText: z
-    .enum(["before", "after"])
-    .describe(
-      "Whether to move the text before or after the matched anchorText."
-    ),
+function multipleMatchesIssue(
+  snapshot: TextSnapshot,
+  suggestionSpans: MatchSpan[],
+  searchPropName: string,
+  searchText: string,
+  options: MatchOptions,
+  paramNames: typeof OCCURRENCE_SELECTION_PARAMS = OCCURRENCE_SELECTION_PARAMS
+): (lines: number[]) => EditsResolution["result"] {
+  return (lines) => {
+    const { result } = handleSearchTextMatchIssues(
+      suggestionSpans,
+      snapshot.rawTextChars,
+      snapshot.flatRawText,
+      snapshot.rawToFlatRaw,
+      messages.multipleMatches,
+      searchPropName,
+      searchText,
+      options
+    );
+    return {
+      ...result,
+      message: `${result.message} ${messages.matchLines(lines, paramNames)}`,
+    };
+  };
+}
 
-  anchorBlockStartMarker: z
-    .string()
-    .optional()
-    .describe(
-      "If provided, restricts anchorText to after the start of this marker. Match(es) must exist in the file. First matched anchorBlockStartMarker is used."
-    ),
+type LineEndingInfo = { dominant?: string; mixed: boolean };
 
-  anchorBlockEndMarker: z
-    .string()
-    .optional()
-    .describe(
-      "If provided, restricts anchorText to before the end of this marker. Match(es) must exist in the file. Last matched anchorBlockEndMarker is used."
-    ),
-};
+function detectLineEndings(text: string): LineEndingInfo {
+  const counts = new Map<string, number>();
+  for (const match of text.matchAll(/\r\n|\n|\r/g)) {
+    counts.set(match[0], (counts.get(match[0]) ?? 0) + 1);
+  }
+  // Ties are resolved in favour of the line ending that appears first
+  let dominant: string | undefined;
+  for (const [lineEnding, count] of counts) {
+    if (dominant === undefined || count > counts.get(dominant)) {
+      dominant = lineEnding;
+    }
+  }
+  return { dominant, mixed: counts.size > 1 };
+}
 
-const MoveTextParamsParser = z.object(MoveTextParams);
-type MoveTextParamsType = z.infer<typeof MoveTextParamsParser>;
+function adaptLineEndings(
+  text: string,
+  lineEndings: LineEndingInfo,
+  normalize: boolean
+): string {
+  if (!normalize || lineEndings.dominant === undefined) return text;
+  return text.replace(/\r\n|\n|\r/g, lineEndings.dominant);
+}
 
-async function moveTextImpl(params: MoveTextParamsType): Promise<{
-  success: boolean;
-  result: {
-    message: string;
-    SuggestedParameterValues?: {
-      textToBeMoved?: string;
-      searchText?: string;
-      anchorBlockStartMarker?: string;
-      anchorBlockEndMarker?: string;
-    }[];
+type TextSnapshot = ReturnType<typeof buildFlatRawTextHelpers> & {
+  rawText: string;
+  lineEndings: LineEndingInfo;
+  normalizeLineEndings: boolean;
+  indentUnit?: string;
+};
+
+function buildTextSnapshot(
+  rawText: string,
+  normalizeLineEndings: boolean = true
+): TextSnapshot {
+  return {
+    rawText,
+    lineEndings: detectLineEndings(rawText),
+    normalizeLineEndings,
+    indentUnit: detectIndentUnit(rawText),
+    ...buildFlatRawTextHelpers(rawText),
   };
-}> {
-  try {
-    const p = MoveTextParamsParser.parse(params);
+}
 
-    const fileValidation = await validateTextFileToEdit(p.filePath);
-    if (!fileValidation.success) {
-      return { success: false, result: { message: fileValidation.message! } };
-    }
+function leadingWhiteSpace(line: string): string {
+  return /^[ \t]*/.exec(line)[0];
+}
 
-    const rawText = await fs.promises.readFile(p.filePath, "utf-8");
-    const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } =
-      buildFlatRawTextHelpers(rawText);
+function detectIndentUnit(text: string): string | undefined {
+  let tabIndentedLines = 0;
+  let spaceIndentedLines = 0;
+  let previousWidth = 0;
+  const widthChanges = new Map<number, number>();
+
+  for (const line of text.split(/\r\n|\n|\r/)) {
+    if (line.trim().length === 0) continue;
+    const indentation = leadingWhiteSpace(line);
+    if (indentation.startsWith("\t")) {
+      tabIndentedLines++;
+      continue;
+    }
+    if (indentation.length > 0) spaceIndentedLines++;
+    // The most common change in indentation between lines is the unit
+    const change = Math.abs(indentation.length - previousWidth);
+    if (change > 0) {
+      widthChanges.set(change, (widthChanges.get(change) ?? 0) + 1);
+    }
+    previousWidth = indentation.length;
+  }
 
-    const lineEndingMatch = rawText.match(/\r\n|\n|\r/);
-    const lineEnding = lineEndingMatch ? lineEndingMatch[0] : "\n";
+  if (tabIndentedLines === 0 && spaceIndentedLines === 0) return undefined;
+  if (tabIndentedLines > spaceIndentedLines) return "\t";
 
-    const allMoveMatches = findMatchSpans(
-      flatRawText,
-      normalizeText(p.textToBeMoved),
-      rawTextChars,
-      flatRawToRaw,
-      rawToFlatRaw
-    );
-    if (!allMoveMatches.isExactMatch || allMoveMatches.spans.length === 0) {
-      return handleSearchTextMatchIssues(
-        allMoveMatches.spans,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw,
-        messages.noMatchFound,
-        "textToBeMoved"
-      );
-    }
-    if (allMoveMatches.spans.length > 1) {
-      return handleSearchTextMatchIssues(
-        allMoveMatches.spans,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw,
-        messages.multipleMatches,
-        "textToBeMoved"
-      );
+  let unitWidth = 0;
+  for (const [width, count] of widthChanges) {
+    if (unitWidth === 0 || count > widthChanges.get(unitWidth)) {
+      unitWidth = width;
     }
+  }
+  return " ".repeat(unitWidth);
+}
 
-    const moveSpan = allMoveMatches.spans[0];
+function convertIndentation(
+  indentation: string,
+  fromUnit: string | undefined,
+  toUnit: string | undefined
+): string {
+  if (!fromUnit || !toUnit || fromUnit === toUnit) return indentation;
+
+  const fromWidth = fromUnit === "\t" ? 1 : fromUnit.length;
+  const tabs = indentation.length - indentation.replace(/\t/g, "").length;
+  const spaces = indentation.length - tabs;
+  const levels =
+    fromUnit === "\t" ? tabs : tabs + Math.floor(spaces / fromWidth);
+  const remainder = fromUnit === "\t" ? spaces : spaces % fromWidth;
+  return toUnit.repeat(levels) + " ".repeat(remainder);
+}
 
-    let blockStartSpan: MatchSpan | null = null;
-    if (p.anchorBlockStartMarker) {
-      const startMatches = findMatchSpans(
-        flatRawText,
-        normalizeText(p.anchorBlockStartMarker),
-        rawTextChars,
-        flatRawToRaw,
-        rawToFlatRaw
-      );
-      if (!startMatches.isExactMatch || startMatches.spans.length === 0)
-        return handleSearchTextMatchIssues(
-          startMatches.spans,
-          rawTextChars,
-          flatRawText,
-          rawToFlatRaw,
-          messages.noMatchFound,
-          "anchorBlockStartMarker"
-        );
-      blockStartSpan = startMatches.spans[0];
+/**
+ * Re-indents text so that its common indentation becomes targetIndentation,
+ * converting the indentation relative to it to the indent unit of the file.
+ * If firstLinePrefix is provided, the first line continues an existing line:
+ * it does not take part in finding the common indentation and its leading
+ * white space is replaced with firstLinePrefix.
+ */
+function rebaseIndentation(
+  text: string,
+  targetIndentation: string,
+  fileIndentUnit: string | undefined,
+  firstLinePrefix?: string
+): string {
+  const lines = splitLinesKeepingEndings(text);
+  const contentLines = (
+    firstLinePrefix === undefined ? lines : lines.slice(1)
+  ).filter((line) => line.trim().length > 0);
+
+  let commonIndentation =
+    contentLines.length > 0 ? leadingWhiteSpace(contentLines[0]) : "";
+  for (const line of contentLines) {
+    while (!line.startsWith(commonIndentation)) {
+      commonIndentation = commonIndentation.slice(0, -1);
     }
+  }
+  const textIndentUnit = detectIndentUnit(
+    contentLines.map((line) => line.slice(commonIndentation.length)).join("")
+  );
 
-    let blockEndSpan: MatchSpan | null = null;
-    if (p.anchorBlockEndMarker) {
-      const endMatches = findMatchSpans(
-        flatRawText,
-        normalizeText(p.anchorBlockEndMarker),
-        rawTextChars,
-        flatRawToRaw,
-        rawToFlatRaw
-      );
-      const validEndSpans = endMatches.spans.filter(
-        (e) => !blockStartSpan || e.rawStart >= blockStartSpan.rawEndExclusive
+  return lines
+    .map((line, i) => {
+      if (line.trim().length === 0) return line.replace(/^[ \t]+/, "");
+      if (i === 0 && firstLinePrefix !== undefined) {
+        return firstLinePrefix + line.slice(leadingWhiteSpace(line).length);
+      }
+      const relativeLine = line.slice(commonIndentation.length);
+      const relativeIndentation = leadingWhiteSpace(relativeLine);
+      return (
+        targetIndentation +
+        convertIndentation(
+          relativeIndentation,
+          textIndentUnit,
+          fileIndentUnit
+        ) +
+        relativeLine.slice(relativeIndentation.length)
       );
-      if (!endMatches.isExactMatch || validEndSpans.length === 0)
-        return handleSearchTextMatchIssues(
-          endMatches.spans,
-          rawTextChars,
-          flatRawText,
-          rawToFlatRaw,
-          messages.noMatchFound,
-          "anchorBlockEndMarker"
-        );
-      blockEndSpan = validEndSpans[validEndSpans.length - 1];
-    }
+    })
+    .join("");
+}
 
-    const allAnchorMatches = findMatchSpans(
-      flatRawText,
-      normalizeText(p.anchorText),
-      rawTextChars,
-      flatRawToRaw,
-      rawToFlatRaw
-    );
-    const blockStartOffset = blockStartSpan ? blockStartSpan.rawStart : 0;
-    const blockEndOffset = blockEndSpan
-      ? blockEndSpan.rawEndExclusive
-      : rawTextChars.length;
-    const anchorMatchesInBlock = allAnchorMatches.spans.filter(
-      (s) =>
-        s.rawStart >= blockStartOffset && s.rawEndExclusive <= blockEndOffset
-    );
+function lineBoundsAt(
+  rawTextChars: string[],
+  pos: number
+): { lineStart: number; lineEnd: number } {
+  let lineStart = pos;
+  while (lineStart > 0 && !isPosLineBoundary(rawTextChars, lineStart - 1)) {
+    lineStart--;
+  }
+  let lineEnd = pos;
+  while (
+    lineEnd < rawTextChars.length &&
+    !isPosLineBoundary(rawTextChars, lineEnd)
+  ) {
+    lineEnd++;
+  }
+  return { lineStart, lineEnd };
+}
 
-    if (!allAnchorMatches.isExactMatch || anchorMatchesInBlock.length === 0)
-      return handleSearchTextMatchIssues(
-        anchorMatchesInBlock,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw,
-        messages.noMatchFound,
-        "anchorText"
-      );
-    if (anchorMatchesInBlock.length > 1)
-      return handleSearchTextMatchIssues(
-        anchorMatchesInBlock,
-        rawTextChars,
-        flatRawText,
-        rawToFlatRaw,
-        messages.multipleMatches,
-        "anchorText"
-      );
+/**
+ * Re-indents text that replaces the raw span to the indentation of the line
+ * containing targetLinePos (the matched span's first line).
+ */
+function rebaseIndentationAtSpan(
+  snapshot: TextSnapshot,
+  text: string,
+  span: { rawStart: number; rawEndExclusive: number },
+  targetLinePos: number = span.rawStart
+): string {
+  const { rawTextChars } = snapshot;
+
+  const targetLine = lineBoundsAt(rawTextChars, targetLinePos);
+  const targetIndentation = leadingWhiteSpace(
+    sliceBySpan(rawTextChars, {
+      rawStart: targetLine.lineStart,
+      rawEndExclusive: targetLine.lineEnd,
+    })
+  );
+  const { lineStart } = lineBoundsAt(rawTextChars, span.rawStart);
+  const prefix = sliceBySpan(rawTextChars, {
+    rawStart: lineStart,
+    rawEndExclusive: span.rawStart,
+  });
+  const isPrefixIndentation = prefix.trim().length === 0;
+
+  // Text starting at the beginning of a line is indented like the lines after
+  // it. Otherwise the first line only gets the indentation missing before it.
+  let firstLinePrefix: string | undefined;
+  if (prefix.length === 0) firstLinePrefix = undefined;
+  else if (isPrefixIndentation && targetIndentation.startsWith(prefix))
+    firstLinePrefix = targetIndentation.slice(prefix.length);
+  else if (isPrefixIndentation) firstLinePrefix = "";
+  else firstLinePrefix = leadingWhiteSpace(text);
+
+  let rebasedText = rebaseIndentation(
+    text,
+    targetIndentation,
+    snapshot.indentUnit,
+    firstLinePrefix
+  );
 
-    const anchorSpan = anchorMatchesInBlock[0];
+  // Text pushed onto a new line keeps the indentation it had before
+  const suffix = sliceBySpan(rawTextChars, {
+    rawStart: span.rawEndExclusive,
+    rawEndExclusive: lineBoundsAt(rawTextChars, span.rawEndExclusive).lineEnd,
+  });
+  if (
+    isPrefixIndentation &&
+    suffix.trim().length > 0 &&
+    /(\r\n|\n|\r)$/.test(rebasedText)
+  ) {
+    rebasedText += prefix;
+  }
+  return rebasedText;
+}
 
-    const moveSpanLineBoundaryStartPos = findLineBoundaryToLeft(
-      rawTextChars,
-      moveSpan
-    );
-    const moveSpanLineBoundaryEndPos = findLineBoundaryToRight(
-      rawTextChars,
-      moveSpan
-    );
-    const anchorSpanLineBoundaryStartPos = findLineBoundaryToLeft(
-      rawTextChars,
-      anchorSpan
-    );
-    const anchorSpanLineBoundaryEndPos = findLineBoundaryToRight(
-      rawTextChars,
-      anchorSpan
-    );
+type EditsResolution = {
+  success: boolean;
+  edits?: SpanEdit[];
+  substitutions?: RegexSubstitution[];
+  result?: {
+    message: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+    substitutions?: RegexSubstitution[];
+  };
+};
 
-    const isAnchorTextAtLineBoundary =
-      p.positionRelativeToAnchorText === "before"
-        ? anchorSpanLineBoundaryStartPos >= 0
-        : anchorSpanLineBoundaryEndPos >= 0;
+type RegexSubstitution = {
+  line: number;
+  matchedText: string;
+  replacementText: string;
+};
+
+/**
+ * Expands $$, $&, $`, $', $n and $<name> in a replacement template the same
+ * way String.prototype.replace does.
+ */
+function expandRegexReplacement(
+  template: string,
+  match: RegExpMatchArray
+): string {
+  const group = (index: number) => match[index] ?? "";
+  return template.replace(
+    /\$(\$|&|`|'|\d{1,2}|<([^>]*)>)/g,
+    (token: string, ref: string, name?: string) => {
+      if (ref === "$") return "$";
+      if (ref === "&") return match[0];
+      if (ref === "`") return match.input.slice(0, match.index);
+      if (ref === "'") return match.input.slice(match.index + match[0].length);
+      if (name !== undefined) {
+        return match.groups ? match.groups[name] ?? "" : token;
+      }
+      // $nn refers to group n followed by a digit if there is no group nn
+      const index = Number(ref);
+      if (index >= 1 && index < match.length) return group(index);
+      const singleDigitIndex = Number(ref[0]);
+      if (
+        ref.length === 2 &&
+        singleDigitIndex >= 1 &&
+        singleDigitIndex < match.length
+      ) {
+        return group(singleDigitIndex) + ref[1];
+      }
+      return token;
+    }
+  );
+}
+
+/** Converts ascending UTF-16 offsets of text to offsets in its code points */
+function toCodePointOffsets(text: string, offsets: number[]): number[] {
+  const result: number[] = [];
+  let codePointOffset = 0;
+  let utf16Offset = 0;
+  for (const offset of offsets) {
+    while (utf16Offset < offset) {
+      utf16Offset += text.codePointAt(utf16Offset) > 0xffff ? 2 : 1;
+      codePointOffset++;
+    }
+    result.push(codePointOffset);
+  }
+  return result;
+}
 
-    const isLineBoundaryMove =
-      moveSpanLineBoundaryStartPos >= 0 &&
-      moveSpanLineBoundaryEndPos >= 0 &&
-      isAnchorTextAtLineBoundary;
+// Collects up to limit accepted matches of the global regex. Matching runs in
+// a separate context so that it can be aborted after REGEX_TIMEOUT_MS, which
+// throws an ERR_SCRIPT_EXECUTION_TIMEOUT error.
+function findRegexMatches(
+  text: string,
+  regex: RegExp,
+  limit: number,
+  accept: (match: RegExpMatchArray) => boolean
+): RegExpMatchArray[] {
+  const matches: RegExpMatchArray[] = [];
+  vm.runInNewContext(
+    `for (const match of text.matchAll(regex)) {
+      if (!accept(match)) continue;
+      matches.push(match);
+      if (matches.length === limit) break;
+    }`,
+    { text, regex, limit, accept, matches },
+    { timeout: REGEX_TIMEOUT_MS }
+  );
+  return matches;
+}
 
-    let deletionSpan = {
-      rawStart: isLineBoundaryMove
-        ? moveSpanLineBoundaryStartPos
-        : moveSpan.rawStart,
-      rawEndExclusive: isLineBoundaryMove
-        ? expandEndLineBoundaryToIncludeTrailingNewLine(rawTextChars, moveSpanLineBoundaryEndPos)
-        : moveSpan.rawEndExclusive,
+function resolveRegexReplaceEdits(
+  snapshot: TextSnapshot,
+  p: {
+    searchText?: string;
+    replacementText?: string;
+    expectedOccurrences?: number;
+    indentation?: "auto" | "verbatim";
+    regexFlags?: string;
+    maxMatches?: number;
+  } & MatchOptions &
+    OccurrenceSelection,
+  actionAllMatches: boolean
+): EditsResolution {
+  const { rawText, rawTextChars } = snapshot;
+
+  if ((p.searchText ?? "").length > MAX_REGEX_LENGTH) {
+    return {
+      success: false,
+      result: { message: messages.regexTooLong(p.searchText!.length) },
     };
+  }
 
-    let insertionPoint =
-      p.positionRelativeToAnchorText === "before"
-        ? isLineBoundaryMove
-          ? anchorSpanLineBoundaryStartPos
-          : anchorSpan.rawStart
-        : isLineBoundaryMove
-        ? anchorSpanLineBoundaryEndPos
-        : anchorSpan.rawEndExclusive;
+  let regex: RegExp;
+  try {
+    const flags = new Set(("g" + (p.regexFlags ?? "")).split(""));
+    if (p.caseSensitive === false) flags.add("i");
+    regex = new RegExp(p.searchText, Array.from(flags).join(""));
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.invalidRegex((err as Error).message) },
+    };
+  }
 
+  const maxMatches = p.maxMatches ?? 1000;
+  let matches: RegExpMatchArray[];
+  try {
+    matches = findRegexMatches(
+      rawText,
+      regex,
+      maxMatches + 1,
+      (match) =>
+        !p.matchWholeWord ||
+        isWholeWordMatch(rawText, match.index!, match.index! + match[0].length)
+    );
+  } catch (err) {
     if (
-      insertionPoint > deletionSpan.rawStart &&
-      insertionPoint < deletionSpan.rawEndExclusive
+      (err as NodeJS.ErrnoException).code !== "ERR_SCRIPT_EXECUTION_TIMEOUT"
     ) {
-      return {
-        success: false,
-        result: {
-          message:
-            "Invalid operation: textToBeMoved overlaps with the anchorText insertion point.",
-        },
-      };
+      throw err;
     }
-
-    const textToMoveSpan = {
-      rawStart: deletionSpan.rawStart,
-      rawEndExclusive: isLineBoundaryMove
-        ? moveSpanLineBoundaryEndPos
-        : moveSpan.rawEndExclusive,
+    return { success: false, result: { message: messages.regexTimeout } };
+  }
+  if (matches.length > maxMatches) {
+    return {
+      success: false,
+      result: { message: messages.tooManyRegexMatches(maxMatches) },
     };
-    let textToMove = sliceBySpan(rawTextChars, textToMoveSpan);
-    if (isLineBoundaryMove) {
-      if (p.positionRelativeToAnchorText === "before") textToMove += lineEnding;
-      else textToMove = lineEnding + textToMove;
-    }
-
-    const newRawTextChars = [...rawTextChars];
-    newRawTextChars.splice(
-      deletionSpan.rawStart,
-      deletionSpan.rawEndExclusive - deletionSpan.rawStart
-    );
-
-    const adjustedInsertPoint =
-      insertionPoint <= deletionSpan.rawStart
-        ? insertionPoint
-        : insertionPoint -
-          (deletionSpan.rawEndExclusive - deletionSpan.rawStart);
-
-    newRawTextChars.splice(adjustedInsertPoint, 0, ...Array.from(textToMove));
+  }
 
-    await fs.promises.writeFile(p.filePath, newRawTextChars.join(""), "utf-8");
+  if (matches.length === 0) {
+    return { success: false, result: { message: messages.noRegexMatch } };
+  }
 
+  if (
+    p.expectedOccurrences !== undefined &&
+    matches.length !== p.expectedOccurrences
+  ) {
     return {
-      success: true,
+      success: false,
       result: {
-        message: `Successfully moved the text block ${p.positionRelativeToAnchorText} the matched anchorText in ${p.filePath}.`,
+        message: messages.occurrenceCountMismatch(
+          "searchText",
+          p.expectedOccurrences,
+          matches.length
+        ),
       },
     };
-  } catch (err) {
+  }
+
+  const lineStarts = buildLineStartOffsets(rawTextChars);
+  const codePointOffsets = toCodePointOffsets(
+    rawText,
+    matches.flatMap((m) => [m.index, m.index + m[0].length])
+  );
+  const edits: SpanEdit[] = matches.map((match, i) => {
+    const span = {
+      rawStart: codePointOffsets[2 * i],
+      rawEndExclusive: codePointOffsets[2 * i + 1],
+    };
+    const text = adaptLineEndings(
+      expandRegexReplacement(p.replacementText, match),
+      snapshot.lineEndings,
+      snapshot.normalizeLineEndings
+    );
     return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
+      ...span,
+      text:
+        p.indentation === "auto"
+          ? rebaseIndentationAtSpan(snapshot, text, span)
+          : text,
+    };
+  });
+  const toSubstitution = (edit: SpanEdit, i: number) => ({
+    line: rawOffsetToLineColumn(edit.rawStart, lineStarts).line,
+    matchedText: matches[i][0],
+    replacementText: edit.text,
+  });
+  const substitutions = edits.slice(0, REGEX_PREVIEW_COUNT).map(toSubstitution);
+
+  if (!actionAllMatches) {
+    const selected = selectOccurrence(
+      rawText,
+      edits,
+      p,
+      OCCURRENCE_SELECTION_PARAMS,
+      (lines) => ({
+        message: `${messages.multipleRegexMatches(
+          matches.length
+        )} ${messages.matchLines(lines, OCCURRENCE_SELECTION_PARAMS)}`,
+        substitutions,
+      })
+    );
+    if (!selected.success) return { success: false, result: selected.result };
+    return {
+      success: true,
+      edits: [selected.span],
+      substitutions: [
+        toSubstitution(selected.span, edits.indexOf(selected.span)),
+      ],
     };
   }
+
+  return { success: true, edits, substitutions };
 }
 
-function expandEndLineBoundaryToIncludeTrailingNewLine(rawTextChars: string[], pos: number) {
-  while(pos < rawTextChars.length && (rawTextChars[pos] === "\r" || rawTextChars[pos] === "\n"))
-  {
-    pos++;
+function resolveReplaceEdits(
+  snapshot: TextSnapshot,
+  p: {
+    searchText?: string;
+    replacementText?: string;
+    expectedOccurrences?: number;
+    indentation?: "auto" | "verbatim";
+    mode?: "literal" | "regex";
+    regexFlags?: string;
+    maxMatches?: number;
+  } & MatchOptions &
+    OccurrenceSelection,
+  actionAllMatches: boolean
+): EditsResolution {
+  if (p.mode === "regex") {
+    return resolveRegexReplaceEdits(snapshot, p, actionAllMatches);
   }
 
-  return pos;
-}
+  const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } = snapshot;
 
-function isPosLineBoundary(rawTextChars: string[], pos: number) {
-  return rawTextChars[pos] === "\n" || rawTextChars[pos] === "\r";
-}
+  const { spans: allSpans, isExactMatch } = findMatchSpans(
+    flatRawText,
+    normalizeText(p.searchText),
+    rawTextChars,
+    flatRawToRaw,
+    rawToFlatRaw,
+    Number.POSITIVE_INFINITY,
+    p
+  );
 
-function findLineBoundaryToLeft(
-  rawTextChars: string[],
-  span: { rawStart: number }
-): number {
-  let start = span.rawStart;
-  const hasStartReachedLineBoundary = () =>
-    start === 0 || isPosLineBoundary(rawTextChars, start - 1);
-  while (
-    !hasStartReachedLineBoundary() &&
-    WHITE_SPACE.test(rawTextChars[start - 1])
+  if (!isExactMatch || allSpans.length === 0) {
+    return handleSearchTextMatchIssues(
+      allSpans,
+      rawTextChars,
+      flatRawText,
+      rawToFlatRaw,
+      messages.noMatchFound,
+      "searchText",
+      p.searchText,
+      p
+    );
+  }
+
+  // Overlapping matches (for e.g. "aa" in "aaa") cannot all be replaced
+  let spans = actionAllMatches ? dropOverlappingSpans(allSpans) : allSpans;
+
+  if (
+    p.expectedOccurrences !== undefined &&
+    spans.length !== p.expectedOccurrences
   ) {
-    start--;
+    return {
+      success: false,
+      result: {
+        message: messages.occurrenceCountMismatch(
+          "searchText",
+          p.expectedOccurrences,
+          spans.length
+        ),
+      },
+    };
   }
-  return hasStartReachedLineBoundary() ? start : -1;
-}
 
-function findLineBoundaryToRight(
-  rawTextChars: string[],
-  span: { rawEndExclusive: number }
-): number {
-  let end = span.rawEndExclusive;
-  const hasEndReachedLineBoundary = () =>
-    end === rawTextChars.length || isPosLineBoundary(rawTextChars, end);
-  while (!hasEndReachedLineBoundary() && WHITE_SPACE.test(rawTextChars[end])) {
-    end++;
+  if (!actionAllMatches) {
+    const selected = selectOccurrence(
+      snapshot.rawText,
+      spans,
+      p,
+      OCCURRENCE_SELECTION_PARAMS,
+      multipleMatchesIssue(
+        snapshot,
+        spans.slice(0, MAX_DISAMBIGUATION_SUGGESTIONS),
+        "searchText",
+        p.searchText,
+        p
+      )
+    );
+    if (!selected.success) return { success: false, result: selected.result };
+    spans = [selected.span];
   }
-  return hasEndReachedLineBoundary() ? end : -1;
+
+  return {
+    success: true,
+    edits: spans.map((span) => {
+      const text = adaptLineEndings(
+        p.replacementText,
+        snapshot.lineEndings,
+        snapshot.normalizeLineEndings
+      );
+      return {
+        rawStart: span.rawStart,
+        rawEndExclusive: span.rawEndExclusive,
+        text:
+          p.indentation === "auto"
+            ? rebaseIndentationAtSpan(snapshot, text, span)
+            : text,
+      };
+    }),
+  };
 }
 
-const MoveOrRenameFileParams = {
-  sourceFilePath: z.string().describe("Current path of the file to rename."),
-  targetFilePath: z.string().describe("New path/name for the file."),
+async function searchTextAndReplace(
+  p: {
+    filePath?: string;
+    searchText?: string;
+    replacementText?: string;
+    expectedOccurrences?: number;
+    indentation?: "auto" | "verbatim";
+    mode?: "literal" | "regex";
+    regexFlags?: string;
+    maxMatches?: number;
+    dryRun?: boolean;
+    diffContextLines?: number;
+    normalizeLineEndings?: boolean;
+    encoding?: TextEncoding;
+  } & MatchOptions &
+    OccurrenceSelection,
+  actionAllMatches: boolean,
+  validateReplaceText: boolean
+): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+    substitutions?: RegexSubstitution[];
+  };
+}> {
+  const fileValidation = await validateTextFileToEdit(p.filePath);
+  if (!fileValidation.success) {
+    return {
+      success: false,
+      result: {
+        message: fileValidation.message!,
+        SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+      },
+    };
+  }
+
+  // A regex is never identical to the text it is replaced with
+  if (validateReplaceText && p.mode !== "regex") {
+    if (p.searchText === p.replacementText)
+      return { success: false, result: { message: messages.identicalText } };
+  }
+
+  const { text: rawText, fileEncoding } = await readTextFile(
+    p.filePath,
+    p.encoding
+  );
+  const snapshot = buildTextSnapshot(rawText, p.normalizeLineEndings ?? true);
+  const staleFile = fileChangedSinceReadIssue(p, rawText, () => {
+    const r = resolveReplaceEdits(snapshot, p, actionAllMatches);
+    return r.success
+      ? applySpanEdits(snapshot.rawTextChars, r.edits)
+      : undefined;
+  });
+  if (staleFile) return staleFile;
+
+  const resolution = resolveReplaceEdits(snapshot, p, actionAllMatches);
+  if (!resolution.success) {
+    return { success: false, result: resolution.result };
+  }
+
+  const { newRawText, changedSpans } = applySpanEdits(
+    snapshot.rawTextChars,
+    resolution.edits
+  );
+
+  const edit = await completeEdit(
+    p,
+    rawText,
+    newRawText,
+    changedSpans,
+    messages.success.replaced(
+      p.replacementText ? "replaced" : "deleted",
+      p.filePath,
+      resolution.edits.length
+    ),
+    fileEncoding
+  );
+  if (edit.success && resolution.substitutions) {
+    return {
+      ...edit,
+      result: { ...edit.result, substitutions: resolution.substitutions },
+    };
+  }
+  return edit;
+}
+
+const ReplaceMatchingTextParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  searchText: z
+    .string()
+    .describe(
+      "Text to search for matching. " + messages.descriptions.searchText
+    ),
+  replacementText: z
+    .string()
+    .describe(
+      "Text to replace searchText matches with. Should be exactly what you want to write, including formatting"
+    ),
+  replaceAllOccurrencesOfSearchText: z.coerce
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(messages.descriptions.actionOnAllMatches("replaces")),
+  expectedOccurrences: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.expectedOccurrences),
+  indentation: z
+    .enum(["auto", "verbatim"])
+    .default("verbatim")
+    .optional()
+    .describe(messages.descriptions.indentation),
+  mode: z
+    .enum(["literal", "regex"])
+    .default("literal")
+    .optional()
+    .describe(messages.descriptions.mode),
+  regexFlags: z.string().optional().describe(messages.descriptions.regexFlags),
+  maxMatches: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(1000)
+    .optional()
+    .describe(messages.descriptions.maxMatches),
+  occurrenceIndex: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.occurrenceIndex("searchText")),
+  nearLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.nearLine("searchText")),
+  ...MatchOptionsParams,
+  ...EditOptionsParams,
+};
+
+const ReplaceMatchingTextParamsParser = z.object(ReplaceMatchingTextParams);
+type ReplaceMatchingTextParamsType = z.infer<
+  typeof ReplaceMatchingTextParamsParser
+>;
+
+async function replaceMatchingTextImpl(
+  params: ReplaceMatchingTextParamsType
+): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+    substitutions?: RegexSubstitution[];
+  };
+}> {
+  try {
+    const p = ReplaceMatchingTextParamsParser.parse(params);
+    return await searchTextAndReplace(
+      p,
+      p.replaceAllOccurrencesOfSearchText,
+      true
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const DeleteMatchingTextParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  searchText: z
+    .string()
+    .describe(
+      "Text to search for matching. " + messages.descriptions.searchText
+    ),
+  deleteAllOccurrencesOfSearchText: z.coerce
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(messages.descriptions.actionOnAllMatches("deletes")),
+  expectedOccurrences: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.expectedOccurrences),
+  occurrenceIndex: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.occurrenceIndex("searchText")),
+  nearLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.nearLine("searchText")),
+  ...MatchOptionsParams,
+  ...EditOptionsParams,
+};
+
+const DeleteMatchingTextParamsParser = z.object(DeleteMatchingTextParams);
+type DeleteMatchingTextParamsType = z.infer<
+  typeof DeleteMatchingTextParamsParser
+>;
+
+async function deleteMatchingTextImpl(
+  params: DeleteMatchingTextParamsType
+): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = DeleteMatchingTextParamsParser.parse(params);
+    return await searchTextAndReplace(
+      { ...p, ...{ replacementText: "" } },
+      p.deleteAllOccurrencesOfSearchText,
+      false
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const CreateFileParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("created", false)),
+  fileContent: z
+    .string()
+    .optional()
+    .describe("Initial content to write into the file. Defaults to empty."),
   createMissingDirectories: z
     .boolean()
     .optional()
-    .describe("If true, creates missing directories in the target file path."),
+    .describe("If true, creates missing directories in the file path."),
+  encoding: z
+    .enum(SUPPORTED_ENCODINGS)
+    .optional()
+    .describe(
+      "Text encoding of the new file. Defaults to utf-8. UTF-16 files are created with a byte order mark."
+    ),
 };
 
-const MoveOrRenameFileParamsParser = z.object(MoveOrRenameFileParams);
-type MoveOrRenameFileParamsType = z.infer<typeof MoveOrRenameFileParamsParser>;
+const CreateFileParamsParser = z.object(CreateFileParams);
+type CreateFileParamsType = z.infer<typeof CreateFileParamsParser>;
 
-async function moveOrRenameFileImpl(params: MoveOrRenameFileParamsType) {
+async function createFileImpl(params: CreateFileParamsType) {
   try {
-    const p = MoveOrRenameFileParamsParser.parse(params);
+    const p = CreateFileParamsParser.parse(params);
 
-    if (!fs.existsSync(p.sourceFilePath)) {
+    const pathValidation = await validatePathIsAllowed(p.filePath);
+    if (!pathValidation.success) {
+      return { success: false, result: { message: pathValidation.message! } };
+    }
+
+    const dir = path.dirname(p.filePath);
+
+    if (!fs.existsSync(dir)) {
+      if (p.createMissingDirectories) {
+        fs.mkdirSync(dir, { recursive: true });
+      } else {
+        return {
+          success: false,
+          result: { message: messages.directoryMissing(dir, p.filePath) },
+        };
+      }
+    }
+
+    if (fs.existsSync(p.filePath)) {
       return {
         success: false,
-        result: { message: messages.fileNotExist(p.sourceFilePath) },
+        result: {
+          message: messages.fileAlreadyExists(p.filePath),
+        },
       };
     }
 
-    if (fs.existsSync(p.targetFilePath)) {
+    const encoding = p.encoding ?? "utf-8";
+    const fileEncoding: FileEncoding = {
+      encoding,
+      bom: encoding === "utf-16le" || encoding === "utf-16be",
+    };
+    const fileContent = p.fileContent || "";
+    const unencodableCharacter = findUnencodableCharacter(
+      fileContent,
+      encoding
+    );
+    if (unencodableCharacter !== undefined) {
       return {
         success: false,
-        result: { message: messages.targetPathExists(p.targetFilePath) },
+        result: {
+          message: messages.unencodableText(
+            p.filePath,
+            encoding,
+            unencodableCharacter
+          ),
+        },
       };
     }
 
-    const targetDir = path.dirname(p.targetFilePath);
-    if (!fs.existsSync(targetDir)) {
-      if (p.createMissingDirectories) {
-        fs.mkdirSync(targetDir, { recursive: true });
-      } else {
-        return {
-          success: false,
-          result: {
-            message: messages.directoryMissing(targetDir, p.targetFilePath),
-          },
-        };
-      }
+    await writeTextFile(p.filePath, fileContent, fileEncoding);
+    await recordEdit(messages.success.created(p.filePath), [
+      contentChange(p.filePath, null, encodeText(fileContent, fileEncoding)),
+    ]);
+    return {
+      success: true,
+      result: { message: messages.success.created(p.filePath) },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const OverwriteFileContentParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  fileContent: z
+    .string()
+    .describe(
+      "New content to write into the file. Will completely replace existing content."
+    ),
+  ...EditOptionsParams,
+};
+
+const OverwriteFileContentParamsParser = z.object(OverwriteFileContentParams);
+type OverwriteFileContentParamsType = z.infer<
+  typeof OverwriteFileContentParamsParser
+>;
+
+async function overwriteFileContentImpl(
+  params: OverwriteFileContentParamsType
+) {
+  try {
+    const p = OverwriteFileContentParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(p.filePath);
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText, fileEncoding } = await readTextFile(
+      p.filePath,
+      p.encoding
+    );
+    const fileContent = adaptLineEndings(
+      p.fileContent,
+      detectLineEndings(rawText),
+      p.normalizeLineEndings ?? true
+    );
+    const changedSpans = [
+      { rawStart: 0, rawEndExclusive: Array.from(fileContent).length },
+    ];
+    const staleFile = fileChangedSinceReadIssue(p, rawText, () => ({
+      newRawText: fileContent,
+      changedSpans,
+    }));
+    if (staleFile) return staleFile;
+
+    return await completeEdit(
+      p,
+      rawText,
+      fileContent,
+      changedSpans,
+      messages.success.overwritten(p.filePath),
+      fileEncoding,
+      true
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const AppendTextToFileParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  appendText: z.string().describe("Text to append to the end of the file."),
+  addNewLineBeforeAppending: z.coerce
+    .boolean()
+    .default(true)
+    .optional()
+    .describe(
+      "If true, ensures a newline is added before appending the provided text. If file is already ending with a newLine this flag is ignored."
+    ),
+  ...EditOptionsParams,
+};
+
+const AppendTextToFileParamsParser = z.object(AppendTextToFileParams);
+type AppendTextToFileParamsType = z.infer<typeof AppendTextToFileParamsParser>;
+
+async function appendTextToFileImpl(params: AppendTextToFileParamsType) {
+  try {
+    const p = AppendTextToFileParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(p.filePath);
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText, fileEncoding } = await readTextFile(
+      p.filePath,
+      p.encoding
+    );
+    const lineEndings = detectLineEndings(rawText);
+    let content = rawText;
+
+    if (p.addNewLineBeforeAppending) {
+      const lineEnding = lineEndings.dominant ?? "\n";
+      if (!content.endsWith(lineEnding)) content += lineEnding;
+    }
+
+    content += adaptLineEndings(
+      p.appendText,
+      lineEndings,
+      p.normalizeLineEndings ?? true
+    );
+
+    const changedSpans = [
+      {
+        rawStart: Array.from(rawText).length,
+        rawEndExclusive: Array.from(content).length,
+      },
+    ];
+    const staleFile = fileChangedSinceReadIssue(p, rawText, () => ({
+      newRawText: content,
+      changedSpans,
+    }));
+    if (staleFile) return staleFile;
+
+    return await completeEdit(
+      p,
+      rawText,
+      content,
+      changedSpans,
+      messages.success.appended(p.filePath),
+      fileEncoding
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const InsertTextParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  textToBeInserted: z
+    .string()
+    .describe("Text to insert relative to the anchorText match."),
+  anchorText: z
+    .string()
+    .describe(
+      "Anchor text to search. " +
+        messages.descriptions.searchText +
+        " Provided textToBeInserted is inserted *relative* to this match. Requires exactly one anchorText match in the file."
+    ),
+  positionRelativeToAnchorText: z
+    .enum(["before", "after"])
+    .describe(
+      "Whether to insert the text before or after the matched anchorText."
+    ),
+
+  anchorBlockStartMarker: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, restricts anchorText to after the start of this marker. Match(es) must exist in the file. First matched anchorBlockStartMarker is used."
+    ),
+
+  anchorBlockEndMarker: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, restricts anchorText to before the end of this marker. Match(es) must exist in the file. Last matched anchorBlockEndMarker is used."
+    ),
+  addNewLine: z
+    .boolean()
+    .default(false)
+    .optional()
+    .describe(
+      "If true, ensures a newline separation between the anchorText and textToBeInserted."
+    ),
+  occurrenceIndex: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.occurrenceIndex("anchorText")),
+  nearLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.nearLine("anchorText")),
+  indentation: z
+    .enum(["auto", "verbatim"])
+    .default("verbatim")
+    .optional()
+    .describe(messages.descriptions.indentation),
+  ...MatchOptionsParams,
+  ...EditOptionsParams,
+};
+
+const InsertTextParamsParser = z.object(InsertTextParams);
+type InsertTextParamsType = z.infer<typeof InsertTextParamsParser>;
+
+function resolveAnchorSpan(
+  snapshot: TextSnapshot,
+  p: {
+    anchorText?: string;
+    anchorBlockStartMarker?: string;
+    anchorBlockEndMarker?: string;
+  } & MatchOptions &
+    OccurrenceSelection,
+  selection: OccurrenceSelection = p,
+  selectionParamNames = OCCURRENCE_SELECTION_PARAMS
+): {
+  success: boolean;
+  span?: MatchSpan;
+  result?: EditsResolution["result"];
+} {
+  const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } = snapshot;
+
+  let blockStartSpan: MatchSpan | null = null;
+  if (p.anchorBlockStartMarker) {
+    const startMatches = findMatchSpans(
+      flatRawText,
+      normalizeText(p.anchorBlockStartMarker),
+      rawTextChars,
+      flatRawToRaw,
+      rawToFlatRaw,
+      undefined,
+      p
+    );
+    if (!startMatches.isExactMatch || startMatches.spans.length === 0)
+      return handleSearchTextMatchIssues(
+        startMatches.spans,
+        rawTextChars,
+        flatRawText,
+        rawToFlatRaw,
+        messages.noMatchFound,
+        "anchorBlockStartMarker",
+        p.anchorBlockStartMarker,
+        p
+      );
+    blockStartSpan = startMatches.spans[0];
+  }
+
+  let blockEndSpan: MatchSpan | null = null;
+  if (p.anchorBlockEndMarker) {
+    const endMatches = findMatchSpans(
+      flatRawText,
+      normalizeText(p.anchorBlockEndMarker),
+      rawTextChars,
+      flatRawToRaw,
+      rawToFlatRaw,
+      undefined,
+      p
+    );
+    const validEndSpans = endMatches.spans.filter(
+      (e) => !blockStartSpan || e.rawStart >= blockStartSpan.rawEndExclusive
+    );
+    if (!endMatches.isExactMatch || validEndSpans.length === 0)
+      return handleSearchTextMatchIssues(
+        endMatches.spans,
+        rawTextChars,
+        flatRawText,
+        rawToFlatRaw,
+        messages.noMatchFound,
+        "anchorBlockEndMarker",
+        p.anchorBlockEndMarker,
+        p
+      );
+    blockEndSpan = validEndSpans[validEndSpans.length - 1];
+  }
+
+  const allAnchorMatches = findMatchSpans(
+    flatRawText,
+    normalizeText(p.anchorText),
+    rawTextChars,
+    flatRawToRaw,
+    rawToFlatRaw,
+    Number.POSITIVE_INFINITY,
+    p
+  );
+  const blockStartOffset = blockStartSpan ? blockStartSpan.rawStart : 0;
+  const blockEndOffset = blockEndSpan
+    ? blockEndSpan.rawEndExclusive
+    : rawTextChars.length;
+  const anchorMatchesInBlock = allAnchorMatches.spans.filter(
+    (s) => s.rawStart >= blockStartOffset && s.rawEndExclusive <= blockEndOffset
+  );
+
+  if (!allAnchorMatches.isExactMatch || anchorMatchesInBlock.length === 0)
+    return handleSearchTextMatchIssues(
+      anchorMatchesInBlock,
+      rawTextChars,
+      flatRawText,
+      rawToFlatRaw,
+      messages.noMatchFound,
+      "anchorText",
+      p.anchorText,
+      p
+    );
+
+  return selectOccurrence(
+    snapshot.rawText,
+    anchorMatchesInBlock,
+    selection,
+    selectionParamNames,
+    multipleMatchesIssue(
+      snapshot,
+      anchorMatchesInBlock.slice(0, MAX_DISAMBIGUATION_SUGGESTIONS),
+      "anchorText",
+      p.anchorText,
+      p,
+      selectionParamNames
+    )
+  );
+}
+
+function resolveInsertEdit(
+  snapshot: TextSnapshot,
+  p: {
+    textToBeInserted?: string;
+    anchorText?: string;
+    positionRelativeToAnchorText?: "before" | "after";
+    anchorBlockStartMarker?: string;
+    anchorBlockEndMarker?: string;
+    addNewLine?: boolean;
+    indentation?: "auto" | "verbatim";
+  } & MatchOptions &
+    OccurrenceSelection
+): EditsResolution {
+  const anchor = resolveAnchorSpan(snapshot, p);
+  if (!anchor.success) return { success: false, result: anchor.result };
+
+  const span = anchor.span;
+  const insertionPoint =
+    p.positionRelativeToAnchorText === "before"
+      ? span.rawStart
+      : span.rawEndExclusive;
+
+  let textToInsert = adaptLineEndings(
+    p.textToBeInserted,
+    snapshot.lineEndings,
+    snapshot.normalizeLineEndings
+  );
+  if (p.addNewLine) {
+    const lineEnding = snapshot.lineEndings.dominant ?? "\n";
+    textToInsert =
+      p.positionRelativeToAnchorText === "before"
+        ? textToInsert + lineEnding
+        : lineEnding + textToInsert;
+  }
+  if (p.indentation === "auto") {
+    textToInsert = rebaseIndentationAtSpan(
+      snapshot,
+      textToInsert,
+      { rawStart: insertionPoint, rawEndExclusive: insertionPoint },
+      span.rawStart
+    );
+  }
+
+  return {
+    success: true,
+    edits: [
+      {
+        rawStart: insertionPoint,
+        rawEndExclusive: insertionPoint,
+        text: textToInsert,
+      },
+    ],
+  };
+}
+
+async function insertTextImpl(params: InsertTextParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = InsertTextParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(p.filePath);
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText, fileEncoding } = await readTextFile(
+      p.filePath,
+      p.encoding
+    );
+    const snapshot = buildTextSnapshot(rawText, p.normalizeLineEndings ?? true);
+    const staleFile = fileChangedSinceReadIssue(p, rawText, () => {
+      const r = resolveInsertEdit(snapshot, p);
+      return r.success
+        ? applySpanEdits(snapshot.rawTextChars, r.edits)
+        : undefined;
+    });
+    if (staleFile) return staleFile;
+
+    const resolution = resolveInsertEdit(snapshot, p);
+    if (!resolution.success) {
+      return { success: false, result: resolution.result };
+    }
+
+    const { newRawText, changedSpans } = applySpanEdits(
+      snapshot.rawTextChars,
+      resolution.edits
+    );
+
+    return await completeEdit(
+      p,
+      rawText,
+      newRawText,
+      changedSpans,
+      `Successfully inserted provided text ${p.positionRelativeToAnchorText} the matched anchorText in ${p.filePath}.`,
+      fileEncoding
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const MoveTextParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  textToBeMoved: z
+    .string()
+    .describe(
+      "Text to be found and moved relative to the anchorText match." +
+        messages.descriptions.searchText
+    ),
+  anchorText: z
+    .string()
+    .describe(
+      "Anchor text to search. " +
+        messages.descriptions.searchText +
+        " Provided textToBeMoved is placed *relative* to this match. Requires exactly one anchorText match in the file."
+    ),
+  positionRelativeToAnchorText: z
+    .enum(["before", "after"])
+    .describe(
+      "Whether to move the text before or after the matched anchorText."
+    ),
+
+  anchorBlockStartMarker: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, restricts anchorText to after the start of this marker. Match(es) must exist in the file. First matched anchorBlockStartMarker is used."
+    ),
+
+  anchorBlockEndMarker: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, restricts anchorText to before the end of this marker. Match(es) must exist in the file. Last matched anchorBlockEndMarker is used."
+    ),
+  indentation: z
+    .enum(["auto", "verbatim"])
+    .default("verbatim")
+    .optional()
+    .describe(messages.descriptions.indentation),
+  occurrenceIndex: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.occurrenceIndex("textToBeMoved")),
+  nearLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.nearLine("textToBeMoved")),
+  anchorOccurrenceIndex: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.occurrenceIndex("anchorText")),
+  anchorNearLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(messages.descriptions.nearLine("anchorText")),
+  ...MatchOptionsParams,
+  ...EditOptionsParams,
+};
+
+const MoveTextParamsParser = z.object(MoveTextParams);
+type MoveTextParamsType = z.infer<typeof MoveTextParamsParser>;
+
+function resolveMoveEdits(
+  snapshot: TextSnapshot,
+  p: {
+    textToBeMoved?: string;
+    anchorText?: string;
+    positionRelativeToAnchorText?: "before" | "after";
+    anchorBlockStartMarker?: string;
+    anchorBlockEndMarker?: string;
+    indentation?: "auto" | "verbatim";
+    anchorOccurrenceIndex?: number;
+    anchorNearLine?: number;
+  } & MatchOptions &
+    OccurrenceSelection
+): EditsResolution {
+  const { rawText, rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } =
+    snapshot;
+
+  const lineEnding = snapshot.lineEndings.dominant ?? "\n";
+
+  const allMoveMatches = findMatchSpans(
+    flatRawText,
+    normalizeText(p.textToBeMoved),
+    rawTextChars,
+    flatRawToRaw,
+    rawToFlatRaw,
+    Number.POSITIVE_INFINITY,
+    p
+  );
+  if (!allMoveMatches.isExactMatch || allMoveMatches.spans.length === 0) {
+    return handleSearchTextMatchIssues(
+      allMoveMatches.spans,
+      rawTextChars,
+      flatRawText,
+      rawToFlatRaw,
+      messages.noMatchFound,
+      "textToBeMoved",
+      p.textToBeMoved,
+      p
+    );
+  }
+  const selectedMove = selectOccurrence(
+    rawText,
+    allMoveMatches.spans,
+    p,
+    OCCURRENCE_SELECTION_PARAMS,
+    multipleMatchesIssue(
+      snapshot,
+      allMoveMatches.spans.slice(0, MAX_DISAMBIGUATION_SUGGESTIONS),
+      "textToBeMoved",
+      p.textToBeMoved,
+      p
+    )
+  );
+  if (!selectedMove.success) {
+    return { success: false, result: selectedMove.result };
+  }
+
+  const moveSpan = selectedMove.span;
+
+  const anchor = resolveAnchorSpan(
+    snapshot,
+    p,
+    { occurrenceIndex: p.anchorOccurrenceIndex, nearLine: p.anchorNearLine },
+    {
+      occurrenceIndex: "anchorOccurrenceIndex",
+      nearLine: "anchorNearLine",
+    }
+  );
+  if (!anchor.success) return { success: false, result: anchor.result };
+
+  const anchorSpan = anchor.span;
+
+  const moveSpanLineBoundaryStartPos = findLineBoundaryToLeft(
+    rawTextChars,
+    moveSpan
+  );
+  const moveSpanLineBoundaryEndPos = findLineBoundaryToRight(
+    rawTextChars,
+    moveSpan
+  );
+  const anchorSpanLineBoundaryStartPos = findLineBoundaryToLeft(
+    rawTextChars,
+    anchorSpan
+  );
+  const anchorSpanLineBoundaryEndPos = findLineBoundaryToRight(
+    rawTextChars,
+    anchorSpan
+  );
+
+  const isAnchorTextAtLineBoundary =
+    p.positionRelativeToAnchorText === "before"
+      ? anchorSpanLineBoundaryStartPos >= 0
+      : anchorSpanLineBoundaryEndPos >= 0;
+
+  const isLineBoundaryMove =
+    moveSpanLineBoundaryStartPos >= 0 &&
+    moveSpanLineBoundaryEndPos >= 0 &&
+    isAnchorTextAtLineBoundary;
+
+  let deletionSpan = {
+    rawStart: isLineBoundaryMove
+      ? moveSpanLineBoundaryStartPos
+      : moveSpan.rawStart,
+    rawEndExclusive: isLineBoundaryMove
+      ? expandEndLineBoundaryToIncludeTrailingNewLine(
+          rawTextChars,
+          moveSpanLineBoundaryEndPos
+        )
+      : moveSpan.rawEndExclusive,
+  };
+
+  let insertionPoint =
+    p.positionRelativeToAnchorText === "before"
+      ? isLineBoundaryMove
+        ? anchorSpanLineBoundaryStartPos
+        : anchorSpan.rawStart
+      : isLineBoundaryMove
+      ? anchorSpanLineBoundaryEndPos
+      : anchorSpan.rawEndExclusive;
+
+  if (
+    insertionPoint > deletionSpan.rawStart &&
+    insertionPoint < deletionSpan.rawEndExclusive
+  ) {
+    return {
+      success: false,
+      result: {
+        message:
+          "Invalid operation: textToBeMoved overlaps with the anchorText insertion point.",
+      },
+    };
+  }
+
+  const textToMoveSpan = {
+    rawStart: deletionSpan.rawStart,
+    rawEndExclusive: isLineBoundaryMove
+      ? moveSpanLineBoundaryEndPos
+      : moveSpan.rawEndExclusive,
+  };
+  let textToMove = sliceBySpan(rawTextChars, textToMoveSpan);
+  if (isLineBoundaryMove) {
+    if (p.positionRelativeToAnchorText === "before") textToMove += lineEnding;
+    else textToMove = lineEnding + textToMove;
+  }
+  if (p.indentation === "auto") {
+    textToMove = rebaseIndentationAtSpan(
+      snapshot,
+      textToMove,
+      { rawStart: insertionPoint, rawEndExclusive: insertionPoint },
+      anchorSpan.rawStart
+    );
+  }
+
+  return {
+    success: true,
+    edits: [
+      { ...deletionSpan, text: "" },
+      {
+        rawStart: insertionPoint,
+        rawEndExclusive: insertionPoint,
+        text: textToMove,
+      },
+    ],
+  };
+}
+
+async function moveTextImpl(params: MoveTextParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = MoveTextParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(p.filePath);
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText, fileEncoding } = await readTextFile(
+      p.filePath,
+      p.encoding
+    );
+    const snapshot = buildTextSnapshot(rawText, p.normalizeLineEndings ?? true);
+    const staleFile = fileChangedSinceReadIssue(p, rawText, () => {
+      const r = resolveMoveEdits(snapshot, p);
+      return r.success
+        ? applySpanEdits(snapshot.rawTextChars, r.edits)
+        : undefined;
+    });
+    if (staleFile) return staleFile;
+
+    const resolution = resolveMoveEdits(snapshot, p);
+    if (!resolution.success) {
+      return { success: false, result: resolution.result };
+    }
+
+    const { newRawText, changedSpans } = applySpanEdits(
+      snapshot.rawTextChars,
+      resolution.edits
+    );
+
+    return await completeEdit(
+      p,
+      rawText,
+      newRawText,
+      changedSpans,
+      `Successfully moved the text block ${p.positionRelativeToAnchorText} the matched anchorText in ${p.filePath}.`,
+      fileEncoding
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+function expandEndLineBoundaryToIncludeTrailingNewLine(rawTextChars: string[], pos: number) {
+  while(pos < rawTextChars.length && (rawTextChars[pos] === "\r" || rawTextChars[pos] === "\n"))
+  {
+    pos++;
+  }
+
+  return pos;
+}
+
+function isPosLineBoundary(rawTextChars: string[], pos: number) {
+  return rawTextChars[pos] === "\n" || rawTextChars[pos] === "\r";
+}
+
+function findLineBoundaryToLeft(
+  rawTextChars: string[],
+  span: { rawStart: number }
+): number {
+  let start = span.rawStart;
+  const hasStartReachedLineBoundary = () =>
+    start === 0 || isPosLineBoundary(rawTextChars, start - 1);
+  while (
+    !hasStartReachedLineBoundary() &&
+    WHITE_SPACE.test(rawTextChars[start - 1])
+  ) {
+    start--;
+  }
+  return hasStartReachedLineBoundary() ? start : -1;
+}
+
+function findLineBoundaryToRight(
+  rawTextChars: string[],
+  span: { rawEndExclusive: number }
+): number {
+  let end = span.rawEndExclusive;
+  const hasEndReachedLineBoundary = () =>
+    end === rawTextChars.length || isPosLineBoundary(rawTextChars, end);
+  while (!hasEndReachedLineBoundary() && WHITE_SPACE.test(rawTextChars[end])) {
+    end++;
+  }
+  return hasEndReachedLineBoundary() ? end : -1;
+}
+
+const LineRangeParams = {
+  startLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .describe("1-based number of the first line of the range."),
+  endLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .describe("1-based number of the last line (inclusive) of the range."),
+  expectedContent: z
+    .string()
+    .optional()
+    .describe(messages.descriptions.expectedContent),
+};
+
+const ReplaceLinesParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  ...LineRangeParams,
+  replacementText: z
+    .string()
+    .describe(
+      "Text to replace the content of the lines with. Should be exactly what you want to write, including formatting. The line ending after endLine is kept."
+    ),
+  ...EditOptionsParams,
+};
+
+const ReplaceLinesParamsParser = z.object(ReplaceLinesParams);
+type ReplaceLinesParamsType = z.infer<typeof ReplaceLinesParamsParser>;
+
+const DeleteLinesParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  ...LineRangeParams,
+  ...EditOptionsParams,
+};
+
+const DeleteLinesParamsParser = z.object(DeleteLinesParams);
+type DeleteLinesParamsType = z.infer<typeof DeleteLinesParamsParser>;
+
+const InsertAtLineParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  line: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .describe(
+      "1-based line number the inserted text starts at. The text is inserted before the current content of this line. Use the number of lines in the file + 1 to insert after the last line."
+    ),
+  textToBeInserted: z
+    .string()
+    .describe(
+      "Text to insert as one or more whole lines. A line ending is added after it."
+    ),
+  expectedContent: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, the current content of line must match it (ignoring white space), otherwise the file is left unchanged. Use it to make sure the line number is not stale."
+    ),
+  ...EditOptionsParams,
+};
+
+const InsertAtLineParamsParser = z.object(InsertAtLineParams);
+type InsertAtLineParamsType = z.infer<typeof InsertAtLineParamsParser>;
+
+type LineRangeResolution = {
+  success: boolean;
+  span?: { rawStart: number; rawEndExclusive: number };
+  result?: { message: string; actualContent?: string };
+};
+
+function resolveLineRange(
+  snapshot: TextSnapshot,
+  p: { startLine?: number; endLine?: number; expectedContent?: string },
+  includeLineEnding: boolean
+): LineRangeResolution {
+  const { rawTextChars } = snapshot;
+  const lineStarts = buildLineStartOffsets(rawTextChars);
+  const totalLines = countLines(rawTextChars, lineStarts);
+
+  // An endLine past the end of the file is rejected rather than clamped, so
+  // that the reported range is the one that was changed
+  if (p.endLine > totalLines || p.startLine > p.endLine) {
+    return {
+      success: false,
+      result: {
+        message: messages.invalidLineRange(p.startLine, p.endLine, totalLines),
+      },
+    };
+  }
+
+  const actualContent = sliceLines(
+    rawTextChars,
+    lineStarts,
+    p.startLine,
+    p.endLine
+  );
+  if (
+    p.expectedContent !== undefined &&
+    normalizeText(p.expectedContent) !== normalizeText(actualContent)
+  ) {
+    return {
+      success: false,
+      result: {
+        message: messages.unexpectedLineContent(p.startLine, p.endLine),
+        actualContent,
+      },
+    };
+  }
+
+  let rawStart = lineStarts[p.startLine - 1];
+  let rawEndExclusive = rawStart + Array.from(actualContent).length;
+  if (includeLineEnding) {
+    if (p.endLine < lineStarts.length) {
+      rawEndExclusive = lineStarts[p.endLine];
+    } else if (p.startLine > 1) {
+      // The last line has no line ending, so the one before the range goes
+      rawStart -=
+        rawTextChars[rawStart - 1] === "\n" &&
+        rawTextChars[rawStart - 2] === "\r"
+          ? 2
+          : 1;
+    }
+  }
+  return { success: true, span: { rawStart, rawEndExclusive } };
+}
+
+async function editLineRange(
+  p: {
+    filePath?: string;
+    dryRun?: boolean;
+    diffContextLines?: number;
+    expectedHash?: string;
+    normalizeLineEndings?: boolean;
+    encoding?: TextEncoding;
+  },
+  resolve: (snapshot: TextSnapshot) => {
+    success: boolean;
+    edit?: SpanEdit;
+    result?: LineRangeResolution["result"];
+  },
+  message: string
+): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    actualContent?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  const fileValidation = await validateTextFileToEdit(p.filePath);
+  if (!fileValidation.success) {
+    return {
+      success: false,
+      result: {
+        message: fileValidation.message!,
+        SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+      },
+    };
+  }
+
+  const { text: rawText, fileEncoding } = await readTextFile(
+    p.filePath,
+    p.encoding
+  );
+  const snapshot = buildTextSnapshot(rawText, p.normalizeLineEndings ?? true);
+  const staleFile = fileChangedSinceReadIssue(p, rawText, () => {
+    const r = resolve(snapshot);
+    return r.success
+      ? applySpanEdits(snapshot.rawTextChars, [r.edit])
+      : undefined;
+  });
+  if (staleFile) return staleFile;
+
+  const resolution = resolve(snapshot);
+  if (!resolution.success) {
+    return { success: false, result: resolution.result };
+  }
+
+  const { newRawText, changedSpans } = applySpanEdits(snapshot.rawTextChars, [
+    resolution.edit,
+  ]);
+
+  return await completeEdit(
+    p,
+    rawText,
+    newRawText,
+    changedSpans,
+    message,
+    fileEncoding
+  );
+}
+
+async function replaceLinesImpl(params: ReplaceLinesParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    actualContent?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = ReplaceLinesParamsParser.parse(params);
+
+    return await editLineRange(
+      p,
+      (snapshot) => {
+        const range = resolveLineRange(snapshot, p, false);
+        if (!range.success) return range;
+        return {
+          success: true,
+          edit: {
+            ...range.span,
+            text: adaptLineEndings(
+              p.replacementText,
+              snapshot.lineEndings,
+              snapshot.normalizeLineEndings
+            ),
+          },
+        };
+      },
+      messages.success.linesChanged(
+        "replaced",
+        p.filePath,
+        p.startLine,
+        p.endLine
+      )
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+async function deleteLinesImpl(params: DeleteLinesParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    actualContent?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = DeleteLinesParamsParser.parse(params);
+
+    return await editLineRange(
+      p,
+      (snapshot) => {
+        const range = resolveLineRange(snapshot, p, true);
+        if (!range.success) return range;
+        return { success: true, edit: { ...range.span, text: "" } };
+      },
+      messages.success.linesChanged(
+        "deleted",
+        p.filePath,
+        p.startLine,
+        p.endLine
+      )
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+async function insertAtLineImpl(params: InsertAtLineParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    actualContent?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = InsertAtLineParamsParser.parse(params);
+
+    return await editLineRange(
+      p,
+      (snapshot) => {
+        const { rawTextChars } = snapshot;
+        const lineStarts = buildLineStartOffsets(rawTextChars);
+        const totalLines = countLines(rawTextChars, lineStarts);
+        const lineEnding = snapshot.lineEndings.dominant ?? "\n";
+        const text = adaptLineEndings(
+          p.textToBeInserted,
+          snapshot.lineEndings,
+          snapshot.normalizeLineEndings
+        );
+
+        if (p.line > totalLines + 1) {
+          return {
+            success: false,
+            result: { message: messages.invalidInsertLine(p.line, totalLines) },
+          };
+        }
+
+        if (p.line <= totalLines) {
+          const range = resolveLineRange(
+            snapshot,
+            {
+              startLine: p.line,
+              endLine: p.line,
+              expectedContent: p.expectedContent,
+            },
+            false
+          );
+          if (!range.success) return range;
+          return {
+            success: true,
+            edit: {
+              rawStart: range.span.rawStart,
+              rawEndExclusive: range.span.rawStart,
+              text: text + lineEnding,
+            },
+          };
+        }
+
+        if (
+          p.expectedContent !== undefined &&
+          normalizeText(p.expectedContent) !== ""
+        ) {
+          return {
+            success: false,
+            result: {
+              message: messages.unexpectedLineContent(p.line, p.line),
+              actualContent: "",
+            },
+          };
+        }
+
+        // Inserting after the last line keeps whether the file ends with a
+        // line ending
+        const endsWithLineEnding =
+          totalLines > 0 &&
+          lineStarts[lineStarts.length - 1] === rawTextChars.length;
+        return {
+          success: true,
+          edit: {
+            rawStart: rawTextChars.length,
+            rawEndExclusive: rawTextChars.length,
+            text:
+              totalLines === 0
+                ? text
+                : endsWithLineEnding
+                ? text + lineEnding
+                : lineEnding + text,
+          },
+        };
+      },
+      messages.success.linesInserted(p.filePath, p.line)
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const EditOperationParams = z.discriminatedUnion("type", [
+  z
+    .object(ReplaceMatchingTextParams)
+    .omit({
+      filePath: true,
+      dryRun: true,
+      diffContextLines: true,
+      expectedHash: true,
+      normalizeLineEndings: true,
+      encoding: true,
+    })
+    .extend({ type: z.literal("replace") }),
+  z
+    .object(DeleteMatchingTextParams)
+    .omit({
+      filePath: true,
+      dryRun: true,
+      diffContextLines: true,
+      expectedHash: true,
+      normalizeLineEndings: true,
+      encoding: true,
+    })
+    .extend({ type: z.literal("delete") }),
+  z
+    .object(InsertTextParams)
+    .omit({
+      filePath: true,
+      dryRun: true,
+      diffContextLines: true,
+      expectedHash: true,
+      normalizeLineEndings: true,
+      encoding: true,
+    })
+    .extend({ type: z.literal("insert") }),
+  z
+    .object(MoveTextParams)
+    .omit({
+      filePath: true,
+      dryRun: true,
+      diffContextLines: true,
+      expectedHash: true,
+      normalizeLineEndings: true,
+      encoding: true,
+    })
+    .extend({ type: z.literal("move") }),
+]);
+type EditOperationParamsType = z.infer<typeof EditOperationParams>;
+
+type OperationResult = {
+  operationIndex: number;
+  message: string;
+  SuggestedParameterValues?: SuggestedParameterValue[];
+};
+
+function resolveOperationEdits(
+  snapshot: TextSnapshot,
+  operation: EditOperationParamsType
+): EditsResolution {
+  switch (operation.type) {
+    case "replace":
+      if (
+        operation.mode !== "regex" &&
+        operation.searchText === operation.replacementText
+      )
+        return { success: false, result: { message: messages.identicalText } };
+      return resolveReplaceEdits(
+        snapshot,
+        operation,
+        operation.replaceAllOccurrencesOfSearchText
+      );
+    case "delete":
+      return resolveReplaceEdits(
+        snapshot,
+        { ...operation, replacementText: "" },
+        operation.deleteAllOccurrencesOfSearchText
+      );
+    case "insert":
+      return resolveInsertEdit(snapshot, operation);
+    case "move":
+      return resolveMoveEdits(snapshot, operation);
+  }
+}
+
+function resolveBatchEdits(
+  snapshot: TextSnapshot,
+  operations: EditOperationParamsType[]
+): { edits: SpanEdit[]; operationResults: OperationResult[] } {
+  const edits: (SpanEdit & { operationIndex: number })[] = [];
+  const operationResults: OperationResult[] = [];
+
+  // Every operation is resolved (even after a failure) so that all issues
+  // can be reported at once
+  operations.forEach((operation, operationIndex) => {
+    const resolution = resolveOperationEdits(snapshot, operation);
+    if (resolution.success) {
+      edits.push(...resolution.edits.map((e) => ({ ...e, operationIndex })));
+    } else {
+      operationResults.push({ operationIndex, ...resolution.result });
+    }
+  });
+
+  if (operationResults.length === 0) {
+    const overlap = findOverlappingEdits(edits);
+    if (overlap) {
+      const [first, second] = overlap;
+      operationResults.push({
+        operationIndex: second.operationIndex,
+        message: messages.overlappingEdits(
+          Math.min(first.operationIndex, second.operationIndex),
+          Math.max(first.operationIndex, second.operationIndex)
+        ),
+      });
+    }
+  }
+
+  return { edits, operationResults };
+}
+
+const ApplyEditsParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+  edits: z
+    .array(EditOperationParams)
+    .min(1)
+    .describe(
+      "Ordered list of edit operations. Each operation takes the same parameters as the corresponding replace_matching_text, delete_matching_text, insert_text or move_text tool (without filePath). All operations are matched against the file content as it is *before* any operation is applied, so an operation cannot refer to text introduced by another one. Text changed by different operations must not overlap."
+    ),
+  ...EditOptionsParams,
+};
+
+const ApplyEditsParamsParser = z.object(ApplyEditsParams);
+type ApplyEditsParamsType = z.infer<typeof ApplyEditsParamsParser>;
+
+async function applyEditsImpl(params: ApplyEditsParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    diff?: string;
+    changedLineRanges?: ChangedLineRange[];
+    contentHash?: string;
+    warning?: string;
+    operationResults?: OperationResult[];
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = ApplyEditsParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(p.filePath);
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText, fileEncoding } = await readTextFile(
+      p.filePath,
+      p.encoding
+    );
+    const snapshot = buildTextSnapshot(rawText, p.normalizeLineEndings ?? true);
+    const staleFile = fileChangedSinceReadIssue(p, rawText, () => {
+      const r = resolveBatchEdits(snapshot, p.edits);
+      return r.operationResults.length === 0
+        ? applySpanEdits(snapshot.rawTextChars, r.edits)
+        : undefined;
+    });
+    if (staleFile) return staleFile;
+
+    const { edits, operationResults } = resolveBatchEdits(snapshot, p.edits);
+    if (operationResults.length > 0) {
+      return {
+        success: false,
+        result: {
+          message: messages.batchEditsFailed(
+            operationResults.length,
+            p.edits.length
+          ),
+          operationResults,
+        },
+      };
+    }
+
+    const { newRawText, changedSpans } = applySpanEdits(
+      snapshot.rawTextChars,
+      edits
+    );
+
+    return await completeEdit(
+      p,
+      rawText,
+      newRawText,
+      changedSpans,
+      messages.success.editsApplied(p.filePath, p.edits.length),
+      fileEncoding
+    );
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const ApplyMultiFileEditsParams = {
+  files: z
+    .array(
+      z.object({
+        filePath: z
+          .string()
+          .describe(messages.descriptions.fileToBeOperatedOn("edited", true)),
+        edits: ApplyEditsParams.edits,
+        expectedHash: EditOptionsParams.expectedHash,
+        encoding: EditOptionsParams.encoding,
+      })
+    )
+    .min(1)
+    .describe(
+      "Files to edit, each with its own ordered list of edit operations. Each file must be listed only once."
+    ),
+  dryRun: EditOptionsParams.dryRun,
+  diffContextLines: EditOptionsParams.diffContextLines,
+  normalizeLineEndings: EditOptionsParams.normalizeLineEndings,
+};
+
+const ApplyMultiFileEditsParamsParser = z.object(ApplyMultiFileEditsParams);
+type ApplyMultiFileEditsParamsType = z.infer<
+  typeof ApplyMultiFileEditsParamsParser
+>;
+
+type FileEditResult = {
+  filePath: string;
+  message?: string;
+  diff?: string;
+  changedLineRanges?: ChangedLineRange[];
+  contentHash?: string;
+  warning?: string;
+  operationResults?: OperationResult[];
+  SuggestedParameterValues?: SuggestedParameterValue[];
+};
+
+async function applyMultiFileEditsImpl(
+  params: ApplyMultiFileEditsParamsType
+): Promise<{
+  success: boolean;
+  result: { message: string; fileResults?: FileEditResult[] };
+}> {
+  try {
+    const p = ApplyMultiFileEditsParamsParser.parse(params);
+
+    const staged: {
+      filePath: string;
+      oldText: string;
+      newText: string;
+      fileEncoding: FileEncoding;
+    }[] = [];
+    const fileResults: FileEditResult[] = [];
+    const failedFileResults: FileEditResult[] = [];
+    const seenPaths = new Set<string>();
+
+    // Stage every file in memory first so that nothing is written unless
+    // all edits of all files can be applied
+    for (const file of p.files) {
+      // Compare real paths so that the same file reached through a symbolic
+      // link is still detected as a duplicate
+      const resolvedPath = await resolveRealPath(file.filePath);
+      if (seenPaths.has(resolvedPath)) {
+        failedFileResults.push({
+          filePath: file.filePath,
+          message: messages.duplicateTransactionFile(file.filePath),
+        });
+        continue;
+      }
+      seenPaths.add(resolvedPath);
+
+      const fileValidation = await validateTextFileToEdit(file.filePath);
+      if (!fileValidation.success) {
+        failedFileResults.push({
+          filePath: file.filePath,
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        });
+        continue;
+      }
+
+      const { text: rawText, fileEncoding } = await readTextFile(
+        file.filePath,
+        file.encoding
+      );
+      const snapshot = buildTextSnapshot(
+        rawText,
+        p.normalizeLineEndings ?? true
+      );
+      const staleFile = fileChangedSinceReadIssue(
+        { ...file, diffContextLines: p.diffContextLines },
+        rawText,
+        () => {
+          const r = resolveBatchEdits(snapshot, file.edits);
+          return r.operationResults.length === 0
+            ? applySpanEdits(snapshot.rawTextChars, r.edits)
+            : undefined;
+        }
+      );
+      if (staleFile) {
+        failedFileResults.push({
+          filePath: file.filePath,
+          ...staleFile.result,
+        });
+        continue;
+      }
+
+      const { edits, operationResults } = resolveBatchEdits(
+        snapshot,
+        file.edits
+      );
+      if (operationResults.length > 0) {
+        failedFileResults.push({
+          filePath: file.filePath,
+          message: messages.batchEditsFailed(
+            operationResults.length,
+            file.edits.length
+          ),
+          operationResults,
+        });
+        continue;
+      }
+
+      const { newRawText, changedSpans } = applySpanEdits(
+        snapshot.rawTextChars,
+        edits
+      );
+      const fileResult: FileEditResult = {
+        filePath: file.filePath,
+        diff: createUnifiedDiff(
+          file.filePath,
+          rawText,
+          newRawText,
+          p.diffContextLines ?? 3
+        ),
+        changedLineRanges: spansToLineRanges(newRawText, changedSpans),
+        contentHash: computeContentHash(rawText),
+        ...(snapshot.lineEndings.mixed
+          ? { warning: messages.mixedLineEndings(file.filePath) }
+          : {}),
+      };
+      const unencodableCharacter = findUnencodableCharacter(
+        newRawText,
+        fileEncoding.encoding
+      );
+      if (unencodableCharacter !== undefined) {
+        failedFileResults.push({
+          filePath: file.filePath,
+          message: messages.unencodableText(
+            file.filePath,
+            fileEncoding.encoding,
+            unencodableCharacter
+          ),
+        });
+        continue;
+      }
+
+      staged.push({
+        filePath: file.filePath,
+        oldText: rawText,
+        newText: newRawText,
+        fileEncoding,
+      });
+      fileResults.push(fileResult);
+    }
+
+    if (failedFileResults.length > 0) {
+      return {
+        success: false,
+        result: {
+          message: messages.transactionFailed(
+            failedFileResults.length,
+            p.files.length
+          ),
+          fileResults: failedFileResults,
+        },
+      };
+    }
+
+    const operationCount = p.files.reduce((n, f) => n + f.edits.length, 0);
+    const message = messages.success.transactionCommitted(
+      p.files.length,
+      operationCount
+    );
+    if (p.dryRun) {
+      return {
+        success: true,
+        result: { message: messages.success.dryRun(message), fileResults },
+      };
+    }
+
+    // Files may have been changed by someone else while the edits were
+    // being computed
+    for (const file of staged) {
+      if (
+        (await readTextFile(file.filePath, file.fileEncoding.encoding)).text !==
+        file.oldText
+      ) {
+        failedFileResults.push({
+          filePath: file.filePath,
+          message: messages.fileChangedDuringEdit(file.filePath),
+        });
+      }
+    }
+    if (failedFileResults.length > 0) {
+      return {
+        success: false,
+        result: {
+          message: messages.transactionFailed(
+            failedFileResults.length,
+            p.files.length
+          ),
+          fileResults: failedFileResults,
+        },
+      };
+    }
+
+    const written: typeof staged = [];
+    try {
+      for (const file of staged) {
+        await writeTextFile(file.filePath, file.newText, file.fileEncoding);
+        written.push(file);
+      }
+    } catch (err) {
+      // Writes are atomic, so the file whose write failed is left unchanged
+      // and only the files written before it need to be restored
+      const notRestored: string[] = [];
+      for (const file of written) {
+        try {
+          await writeTextFile(file.filePath, file.oldText, file.fileEncoding);
+        } catch {
+          notRestored.push(file.filePath);
+        }
+      }
+      return {
+        success: false,
+        result: {
+          message:
+            notRestored.length > 0
+              ? messages.transactionRollbackFailed(
+                  (err as Error).message,
+                  notRestored
+                )
+              : messages.transactionRolledBack((err as Error).message),
+        },
+      };
+    }
+
+    await recordEdit(
+      message,
+      staged.map((f) =>
+        contentChange(
+          f.filePath,
+          encodeText(f.oldText, f.fileEncoding),
+          encodeText(f.newText, f.fileEncoding)
+        )
+      )
+    );
+    staged.forEach((file, i) => {
+      fileResults[i].contentHash = computeContentHash(file.newText);
+    });
+    return { success: true, result: { message, fileResults } };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const MoveOrRenameFileParams = {
+  sourceFilePath: z.string().describe("Current path of the file to rename."),
+  targetFilePath: z.string().describe("New path/name for the file."),
+  createMissingDirectories: z
+    .boolean()
+    .optional()
+    .describe("If true, creates missing directories in the target file path."),
+};
+
+const MoveOrRenameFileParamsParser = z.object(MoveOrRenameFileParams);
+type MoveOrRenameFileParamsType = z.infer<typeof MoveOrRenameFileParamsParser>;
+
+async function moveOrRenameFileImpl(params: MoveOrRenameFileParamsType) {
+  try {
+    const p = MoveOrRenameFileParamsParser.parse(params);
+
+    for (const filePath of [p.sourceFilePath, p.targetFilePath]) {
+      const pathValidation = await validatePathIsAllowed(filePath);
+      if (!pathValidation.success) {
+        return {
+          success: false,
+          result: { message: pathValidation.message! },
+        };
+      }
+    }
+
+    if (!fs.existsSync(p.sourceFilePath)) {
+      const { message, SuggestedParameterValues } = await fileNotExistIssue(
+        p.sourceFilePath,
+        "sourceFilePath"
+      );
+      return { success: false, result: { message, SuggestedParameterValues } };
+    }
+
+    if (fs.existsSync(p.targetFilePath)) {
+      return {
+        success: false,
+        result: { message: messages.targetPathExists(p.targetFilePath) },
+      };
+    }
+
+    const targetDir = path.dirname(p.targetFilePath);
+    if (!fs.existsSync(targetDir)) {
+      if (p.createMissingDirectories) {
+        fs.mkdirSync(targetDir, { recursive: true });
+      } else {
+        return {
+          success: false,
+          result: {
+            message: messages.directoryMissing(targetDir, p.targetFilePath),
+          },
+        };
+      }
     }
 
     await fs.promises.rename(p.sourceFilePath, p.targetFilePath);
+    const message = messages.success.renamed(
+      p.sourceFilePath,
+      p.targetFilePath
+    );
+    await recordEdit(message, [
+      {
+        type: "rename",
+        fromPath: path.resolve(p.sourceFilePath),
+        toPath: path.resolve(p.targetFilePath),
+      },
+    ]);
+    return { success: true, result: { message } };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const DeleteFileParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("deleted", true)),
+  expectedHash: EditOptionsParams.expectedHash,
+};
+
+const DeleteFileParamsParser = z.object(DeleteFileParams);
+type DeleteFileParamsType = z.infer<typeof DeleteFileParamsParser>;
+
+async function deleteFileImpl(params: DeleteFileParamsType) {
+  try {
+    const p = DeleteFileParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(p.filePath, false);
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    if (p.expectedHash) {
+      const contentHash = computeContentHash(
+        (await readTextFile(p.filePath)).text
+      );
+      if (contentHash !== p.expectedHash) {
+        return {
+          success: false,
+          result: {
+            message: messages.fileChangedSinceRead(p.filePath),
+            contentHash,
+          },
+        };
+      }
+    }
+
+    // Deleted content is only read when it can be recorded in history
+    const oldContent =
+      historyDepth > 0 ? await fs.promises.readFile(p.filePath) : null;
+    const trashEntry = await moveToTrash(p.filePath, "deleted");
+    if (!trashEntry) await fs.promises.unlink(p.filePath);
+    const message = trashEntry
+      ? messages.success.fileTrashed(p.filePath, trashEntry.id)
+      : messages.success.fileDeleted(p.filePath);
+    await recordEdit(message, [contentChange(p.filePath, oldContent, null)]);
+    return { success: true, result: { message } };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const UndoLastEditParams = {
+  filePath: z
+    .string()
+    .optional()
+    .describe(messages.descriptions.historyFilePath),
+};
+
+const UndoLastEditParamsParser = z.object(UndoLastEditParams);
+type UndoLastEditParamsType = z.infer<typeof UndoLastEditParamsParser>;
+
+const RedoEditParams = {
+  filePath: z
+    .string()
+    .optional()
+    .describe(messages.descriptions.historyFilePath),
+};
+
+const RedoEditParamsParser = z.object(RedoEditParams);
+type RedoEditParamsType = z.infer<typeof RedoEditParamsParser>;
+
+function findHistoryEntryIndex(
+  entries: HistoryEntry[],
+  filePath?: string
+): number {
+  if (!filePath) return entries.length - 1;
+  const resolvedPath = path.resolve(filePath);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (historyEntryPaths(entries[i]).includes(resolvedPath)) return i;
+  }
+  return -1;
+}
+
+const CreateDirectoryParams = {
+  directoryPath: z
+    .string()
+    .describe("Absolute or relative path of the directory to be created."),
+  createMissingDirectories: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, creates missing parent directories of directoryPath as well."
+    ),
+};
+
+const CreateDirectoryParamsParser = z.object(CreateDirectoryParams);
+type CreateDirectoryParamsType = z.infer<typeof CreateDirectoryParamsParser>;
+
+async function createDirectoryImpl(params: CreateDirectoryParamsType) {
+  try {
+    const p = CreateDirectoryParamsParser.parse(params);
+
+    const pathValidation = await validatePathIsAllowed(p.directoryPath);
+    if (!pathValidation.success) {
+      return { success: false, result: { message: pathValidation.message! } };
+    }
+
+    if (fs.existsSync(p.directoryPath)) {
+      return {
+        success: false,
+        result: {
+          message: (await fs.promises.stat(p.directoryPath)).isDirectory()
+            ? messages.directoryAlreadyExists(p.directoryPath)
+            : messages.targetPathExists(p.directoryPath),
+        },
+      };
+    }
+
+    const parentDir = path.dirname(p.directoryPath);
+    if (!fs.existsSync(parentDir) && !p.createMissingDirectories) {
+      return {
+        success: false,
+        result: {
+          message: messages.parentDirectoryMissing(parentDir, p.directoryPath),
+        },
+      };
+    }
+
+    // Directories to be created, outermost first, so that undo removes them
+    // once they are empty again
+    const createdDirs: string[] = [];
+    for (
+      let dir = path.resolve(p.directoryPath);
+      !fs.existsSync(dir);
+      dir = path.dirname(dir)
+    ) {
+      createdDirs.unshift(dir);
+    }
+    fs.mkdirSync(p.directoryPath, { recursive: true });
+    const message = messages.success.directoryCreated(p.directoryPath);
+    await recordEdit(
+      message,
+      createdDirs.map((dirPath) => ({
+        type: "directory",
+        dirPath,
+        removeDirectory: false,
+      }))
+    );
+    return { success: true, result: { message } };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+async function validateExistingDirectory(
+  dirPath: string
+): Promise<{ success: boolean; message?: string }> {
+  const pathValidation = await validatePathIsAllowed(dirPath);
+  if (!pathValidation.success) return pathValidation;
+
+  if (
+    !fs.existsSync(dirPath) ||
+    !(await fs.promises.stat(dirPath)).isDirectory()
+  ) {
+    return { success: false, message: messages.directoryNotExist(dirPath) };
+  }
+  return { success: true };
+}
+
+const MoveOrRenameDirectoryParams = {
+  sourceDirectoryPath: z
+    .string()
+    .describe("Current path of the directory to move or rename."),
+  targetDirectoryPath: z
+    .string()
+    .describe(
+      "New path/name for the directory. Must not exist yet, the directory is not moved into an existing directory."
+    ),
+  createMissingDirectories: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, creates missing parent directories of targetDirectoryPath."
+    ),
+};
+
+const MoveOrRenameDirectoryParamsParser = z.object(MoveOrRenameDirectoryParams);
+type MoveOrRenameDirectoryParamsType = z.infer<
+  typeof MoveOrRenameDirectoryParamsParser
+>;
+
+async function moveOrRenameDirectoryImpl(
+  params: MoveOrRenameDirectoryParamsType
+) {
+  try {
+    const p = MoveOrRenameDirectoryParamsParser.parse(params);
+
+    const sourceValidation = await validateExistingDirectory(
+      p.sourceDirectoryPath
+    );
+    if (!sourceValidation.success) {
+      return { success: false, result: { message: sourceValidation.message! } };
+    }
+    const targetValidation = await validatePathIsAllowed(p.targetDirectoryPath);
+    if (!targetValidation.success) {
+      return { success: false, result: { message: targetValidation.message! } };
+    }
+
+    const relativeTarget = path.relative(
+      path.resolve(p.sourceDirectoryPath),
+      path.resolve(p.targetDirectoryPath)
+    );
+    if (
+      relativeTarget.split(path.sep)[0] !== ".." &&
+      !path.isAbsolute(relativeTarget)
+    ) {
+      return {
+        success: false,
+        result: {
+          message: messages.directoryIntoItself(
+            p.sourceDirectoryPath,
+            p.targetDirectoryPath
+          ),
+        },
+      };
+    }
+
+    if (fs.existsSync(p.targetDirectoryPath)) {
+      return {
+        success: false,
+        result: { message: messages.targetPathExists(p.targetDirectoryPath) },
+      };
+    }
+
+    const targetParentDir = path.dirname(p.targetDirectoryPath);
+    if (!fs.existsSync(targetParentDir)) {
+      if (p.createMissingDirectories) {
+        fs.mkdirSync(targetParentDir, { recursive: true });
+      } else {
+        return {
+          success: false,
+          result: {
+            message: messages.parentDirectoryMissing(
+              targetParentDir,
+              p.targetDirectoryPath
+            ),
+          },
+        };
+      }
+    }
+
+    await fs.promises.rename(p.sourceDirectoryPath, p.targetDirectoryPath);
+    const message = messages.success.renamed(
+      p.sourceDirectoryPath,
+      p.targetDirectoryPath
+    );
+    await recordEdit(message, [
+      {
+        type: "rename",
+        fromPath: path.resolve(p.sourceDirectoryPath),
+        toPath: path.resolve(p.targetDirectoryPath),
+      },
+    ]);
+    return { success: true, result: { message } };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const DeleteDirectoryParams = {
+  directoryPath: z
+    .string()
+    .describe("Absolute or relative path of the directory to be deleted."),
+  recursive: z
+    .boolean()
+    .describe(
+      "Must be true to delete a directory that is not empty, along with everything in it. If false, only an empty directory is deleted. Set it to true only after verifying the directory contents."
+    ),
+  maxEntries: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(1000)
+    .optional()
+    .describe(
+      "Safety limit, deletion fails without changes if the directory contains more files and directories (counted recursively) than this. Defaults to 1000."
+    ),
+};
+
+const DeleteDirectoryParamsParser = z.object(DeleteDirectoryParams);
+type DeleteDirectoryParamsType = z.infer<typeof DeleteDirectoryParamsParser>;
+
+async function collectDirectoryContents(
+  dirPath: string,
+  maxEntries: number
+): Promise<{
+  entryCount: number;
+  filePaths: string[];
+  dirPaths: string[];
+  symlinkPaths: string[];
+  // Sockets, FIFOs and devices
+  otherPaths: string[];
+}> {
+  // Stops counting once maxEntries is exceeded
+  let entryCount = 0;
+  const filePaths: string[] = [];
+  const dirPaths: string[] = [];
+  const symlinkPaths: string[] = [];
+  const otherPaths: string[] = [];
+  const pendingDirs = [dirPath];
+
+  while (pendingDirs.length > 0 && entryCount <= maxEntries) {
+    const dir = pendingDirs.shift()!;
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      entryCount++;
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        dirPaths.push(entryPath);
+        pendingDirs.push(entryPath);
+      } else if (entry.isFile()) {
+        filePaths.push(entryPath);
+      } else if (entry.isSymbolicLink()) {
+        symlinkPaths.push(entryPath);
+      } else {
+        otherPaths.push(entryPath);
+      }
+    }
+  }
+
+  return { entryCount, filePaths, dirPaths, symlinkPaths, otherPaths };
+}
+
+async function deleteDirectoryImpl(params: DeleteDirectoryParamsType) {
+  try {
+    const p = DeleteDirectoryParamsParser.parse(params);
+    const maxEntries = p.maxEntries ?? 1000;
+
+    const dirValidation = await validateExistingDirectory(p.directoryPath);
+    if (!dirValidation.success) {
+      return { success: false, result: { message: dirValidation.message! } };
+    }
+
+    if (allowedRoots.includes(await resolveRealPath(p.directoryPath))) {
+      return {
+        success: false,
+        result: { message: messages.allowedRootDeletion(p.directoryPath) },
+      };
+    }
+
+    const { entryCount, filePaths } = await collectDirectoryContents(
+      p.directoryPath,
+      maxEntries
+    );
+    if (entryCount > 0 && !p.recursive) {
+      return {
+        success: false,
+        result: {
+          message: messages.directoryNotEmpty(
+            p.directoryPath,
+            entryCount,
+            maxEntries
+          ),
+        },
+      };
+    }
+    if (entryCount > maxEntries) {
+      return {
+        success: false,
+        result: {
+          message: messages.tooManyEntriesToDelete(p.directoryPath, maxEntries),
+        },
+      };
+    }
+
+    // Contents of deleted files are not kept in history since a directory
+    // may hold many large files, they are put in trash instead. They are
+    // copied there first, so that nothing is removed unless all of them
+    // could be trashed.
+    const trashEntries: TrashEntry[] = [];
+    try {
+      for (const filePath of filePaths) {
+        const trashEntry = await moveToTrash(filePath, "deleted", false);
+        if (trashEntry) trashEntries.push(trashEntry);
+      }
+    } catch (err) {
+      for (const trashEntry of trashEntries) {
+        await removeTrashEntry(trashEntry.id);
+      }
+      return {
+        success: false,
+        result: {
+          message: messages.directoryTrashFailed(
+            p.directoryPath,
+            (err as Error).message
+          ),
+        },
+      };
+    }
+    await fs.promises.rm(p.directoryPath, { recursive: true });
+    return {
+      success: true,
+      result: {
+        message:
+          trashEntries.length > 0
+            ? messages.success.directoryTrashed(
+                p.directoryPath,
+                entryCount,
+                trashEntries.length
+              )
+            : messages.success.directoryDeleted(
+                p.directoryPath,
+                entryCount,
+                !trashDir && filePaths.length > 0
+              ),
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const CopyFileParams = {
+  sourcePath: z.string().describe("Path of the file or directory to copy."),
+  targetPath: z
+    .string()
+    .describe(
+      "Path of the copy. Must not exist yet, the source is not copied into an existing directory."
+    ),
+  createMissingDirectories: z
+    .boolean()
+    .optional()
+    .describe("If true, creates missing directories in the target path."),
+  recursive: z
+    .boolean()
+    .optional()
+    .describe(
+      "Must be true to copy a directory along with everything in it. Not needed for copying a file."
+    ),
+  preserveMetadata: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, copied files keep the permissions (mode) and the access and modification times of the source files. Otherwise they get the permissions of a newly created file."
+    ),
+  maxEntries: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(1000)
+    .optional()
+    .describe(
+      "Safety limit, copying a directory fails without changes if it contains more files and directories (counted recursively) than this. Defaults to 1000."
+    ),
+};
+
+const CopyFileParamsParser = z.object(CopyFileParams);
+type CopyFileParamsType = z.infer<typeof CopyFileParamsParser>;
+
+async function copyFileImpl(params: CopyFileParamsType) {
+  try {
+    const p = CopyFileParamsParser.parse(params);
+    const maxEntries = p.maxEntries ?? 1000;
+
+    for (const entryPath of [p.sourcePath, p.targetPath]) {
+      const pathValidation = await validatePathIsAllowed(entryPath);
+      if (!pathValidation.success) {
+        return {
+          success: false,
+          result: { message: pathValidation.message! },
+        };
+      }
+    }
+
+    if (!fs.existsSync(p.sourcePath)) {
+      const { message, SuggestedParameterValues } = await fileNotExistIssue(
+        p.sourcePath,
+        "sourcePath"
+      );
+      return { success: false, result: { message, SuggestedParameterValues } };
+    }
+
+    if (fs.existsSync(p.targetPath)) {
+      return {
+        success: false,
+        result: { message: messages.targetPathExists(p.targetPath) },
+      };
+    }
+
+    // Source and target paths of every file to copy, directories to create
+    let filesToCopy = [{ from: p.sourcePath, to: p.targetPath }];
+    let dirsToCreate: string[] = [];
+    const linksToCopy: { from: string; to: string; linkTarget: string }[] = [];
+    const skippedPaths: string[] = [];
+    if ((await fs.promises.stat(p.sourcePath)).isDirectory()) {
+      if (!p.recursive) {
+        return {
+          success: false,
+          result: { message: messages.copyDirectoryNotRecursive(p.sourcePath) },
+        };
+      }
+
+      const relativeTarget = path.relative(
+        path.resolve(p.sourcePath),
+        path.resolve(p.targetPath)
+      );
+      if (
+        relativeTarget.split(path.sep)[0] !== ".." &&
+        !path.isAbsolute(relativeTarget)
+      ) {
+        return {
+          success: false,
+          result: {
+            message: messages.directoryIntoItself(
+              p.sourcePath,
+              p.targetPath,
+              "copied"
+            ),
+          },
+        };
+      }
+
+      const { entryCount, filePaths, dirPaths, symlinkPaths, otherPaths } =
+        await collectDirectoryContents(p.sourcePath, maxEntries);
+      if (entryCount > maxEntries) {
+        return {
+          success: false,
+          result: {
+            message: messages.tooManyEntriesToCopy(p.sourcePath, maxEntries),
+          },
+        };
+      }
+
+      const toTarget = (entryPath: string) =>
+        path.join(p.targetPath, path.relative(p.sourcePath, entryPath));
+      filesToCopy = filePaths.map((from) => ({ from, to: toTarget(from) }));
+      dirsToCreate = [p.targetPath, ...dirPaths.map(toTarget)];
+
+      // Symbolic links are copied as links, unless they point outside of the
+      // allowed directories where the copy could be used to reach them
+      for (const from of symlinkPaths) {
+        const linkTarget = await fs.promises.readlink(from);
+        const linkValidation = await validatePathIsAllowed(
+          path.resolve(path.dirname(from), linkTarget)
+        );
+        if (linkValidation.success) {
+          linksToCopy.push({ from, to: toTarget(from), linkTarget });
+        } else {
+          skippedPaths.push(from);
+        }
+      }
+      skippedPaths.push(...otherPaths);
+    }
+
+    const targetParentDir = path.dirname(p.targetPath);
+    if (!fs.existsSync(targetParentDir)) {
+      if (p.createMissingDirectories) {
+        fs.mkdirSync(targetParentDir, { recursive: true });
+      } else {
+        return {
+          success: false,
+          result: {
+            message: messages.directoryMissing(targetParentDir, p.targetPath),
+          },
+        };
+      }
+    }
+
+    let bytesCopied = 0;
+    const changes: HistoryChange[] = [];
+    // copyFile keeps the mode of the source, copies are otherwise given the
+    // mode of a newly created file
+    const defaultMode = 0o666 & ~process.umask();
+    try {
+      // Created directories are recorded before the files in them, so that
+      // undo removes them once they are empty again
+      for (const dir of dirsToCreate) {
+        fs.mkdirSync(dir, { recursive: true });
+        if (historyDepth > 0) {
+          changes.push({
+            type: "directory",
+            dirPath: path.resolve(dir),
+            removeDirectory: false,
+          });
+        }
+      }
+
+      for (const { from, to } of filesToCopy) {
+        await fs.promises.copyFile(from, to, fs.constants.COPYFILE_EXCL);
+        const sourceStat = await fs.promises.stat(from);
+        bytesCopied += sourceStat.size;
+        const mode = p.preserveMetadata
+          ? sourceStat.mode & 0o7777
+          : defaultMode;
+        await fs.promises.chmod(to, mode);
+        if (p.preserveMetadata) {
+          await fs.promises.utimes(to, sourceStat.atime, sourceStat.mtime);
+        }
+        // Only the hash of each copy is recorded so that undo can remove it
+        // as long as it was not changed since
+        if (historyDepth > 0) {
+          changes.push({
+            type: "copy",
+            fromPath: path.resolve(from),
+            toPath: path.resolve(to),
+            contentHash: await computeFileHash(to),
+            mode,
+            removeCopy: false,
+          });
+        }
+      }
+
+      for (const { from, to, linkTarget } of linksToCopy) {
+        await fs.promises.symlink(linkTarget, to);
+        if (historyDepth > 0) {
+          changes.push({
+            type: "copy",
+            fromPath: path.resolve(from),
+            toPath: path.resolve(to),
+            linkTarget,
+            removeCopy: false,
+          });
+        }
+      }
+    } catch (err) {
+      // The target did not exist before, so a partial copy is removed as a
+      // whole rather than left behind
+      await fs.promises.rm(p.targetPath, { recursive: true, force: true });
+      throw err;
+    }
+
+    const message = messages.success.copied(
+      p.sourcePath,
+      p.targetPath,
+      filesToCopy.length + linksToCopy.length,
+      bytesCopied,
+      skippedPaths.length
+    );
+    if (changes.length > 0) await recordEdit(message, changes);
+    return {
+      success: true,
+      result: {
+        message,
+        bytesCopied,
+        ...(skippedPaths.length > 0 ? { skippedPaths } : {}),
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+async function replayHistoryEntry(
+  undo: boolean,
+  filePath?: string
+): Promise<{
+  success: boolean;
+  result: { message: string; filePaths?: string[] };
+}> {
+  const fromEntries = undo ? historyEntries : undoneHistoryEntries;
+  const index = findHistoryEntryIndex(fromEntries, filePath);
+  if (index === -1) {
+    return {
+      success: false,
+      result: {
+        message: undo
+          ? messages.nothingToUndo(filePath)
+          : messages.nothingToRedo(filePath),
+      },
+    };
+  }
+
+  const entry = fromEntries[index];
+  const applied = await applyHistoryChanges(
+    undo ? invertHistoryChanges(entry.changes) : entry.changes,
+    undo ? "undone" : "redone"
+  );
+  if (!applied.success) {
+    return { success: false, result: { message: applied.message! } };
+  }
+
+  fromEntries.splice(index, 1);
+  if (undo) {
+    undoneHistoryEntries = trimToHistoryDepth([...undoneHistoryEntries, entry]);
+  } else {
+    historyEntries = trimToHistoryDepth([...historyEntries, entry]);
+  }
+  await saveEditHistory();
+
+  return {
+    success: true,
+    result: {
+      message: undo
+        ? messages.success.undone(entry.id, entry.description)
+        : messages.success.redone(entry.id, entry.description),
+      filePaths: [...new Set(historyEntryPaths(entry))],
+    },
+  };
+}
+
+async function undoLastEditImpl(params: UndoLastEditParamsType) {
+  try {
+    const p = UndoLastEditParamsParser.parse(params);
+    return await replayHistoryEntry(true, p.filePath);
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+async function redoEditImpl(params: RedoEditParamsType) {
+  try {
+    const p = RedoEditParamsParser.parse(params);
+    return await replayHistoryEntry(false, p.filePath);
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const ListEditHistoryParams = {
+  filePath: z
+    .string()
+    .optional()
+    .describe("If provided, only edits that changed this file are listed."),
+  maxEntries: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(20)
+    .optional()
+    .describe(
+      "Maximum number of entries to return in each list. Defaults to 20."
+    ),
+};
+
+const ListEditHistoryParamsParser = z.object(ListEditHistoryParams);
+type ListEditHistoryParamsType = z.infer<typeof ListEditHistoryParamsParser>;
+
+type HistoryEntrySummary = {
+  id: number;
+  timestamp: string;
+  description: string;
+  filePaths: string[];
+};
+
+async function listEditHistoryImpl(params: ListEditHistoryParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    entries?: HistoryEntrySummary[];
+    undoneEntries?: HistoryEntrySummary[];
+  };
+}> {
+  try {
+    const p = ListEditHistoryParamsParser.parse(params);
+    const resolvedPath = p.filePath ? path.resolve(p.filePath) : undefined;
+
+    const summarize = (entries: HistoryEntry[]) =>
+      entries
+        .filter(
+          (e) => !resolvedPath || historyEntryPaths(e).includes(resolvedPath)
+        )
+        .reverse()
+        .slice(0, p.maxEntries ?? 20)
+        .map((e) => ({
+          id: e.id,
+          timestamp: e.timestamp,
+          description: e.description,
+          filePaths: [...new Set(historyEntryPaths(e))],
+        }));
+
+    const entries = summarize(historyEntries);
+    const undoneEntries = summarize(undoneHistoryEntries);
+    return {
+      success: true,
+      result: {
+        message: messages.success.historyListed(
+          entries.length,
+          undoneEntries.length
+        ),
+        entries,
+        undoneEntries,
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const ListTrashParams = {
+  filePath: z
+    .string()
+    .optional()
+    .describe(
+      "If provided, only trash entries of files originally at this path are listed."
+    ),
+};
+
+const ListTrashParamsParser = z.object(ListTrashParams);
+type ListTrashParamsType = z.infer<typeof ListTrashParamsParser>;
+
+async function listTrashImpl(params: ListTrashParamsType): Promise<{
+  success: boolean;
+  result: { message: string; entries?: TrashEntry[] };
+}> {
+  try {
+    const p = ListTrashParamsParser.parse(params);
+    if (!trashDir) {
+      return {
+        success: false,
+        result: { message: messages.trashNotConfigured },
+      };
+    }
+
+    const resolvedPath = p.filePath ? path.resolve(p.filePath) : undefined;
+    const entries = (await readTrashEntries()).filter(
+      (e) => !resolvedPath || e.originalPath === resolvedPath
+    );
+    return {
+      success: true,
+      result: {
+        message: messages.success.trashListed(entries.length),
+        entries,
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const RestoreFromTrashParams = {
+  id: z.string().describe("Id of the trash entry, as listed by list_trash."),
+  targetFilePath: z
+    .string()
+    .optional()
+    .describe(
+      "Path to restore the file to. Defaults to the path the file was deleted or overwritten at."
+    ),
+  overwrite: z
+    .boolean()
+    .optional()
+    .describe(
+      "If true, an existing file at the target path is replaced. Its current content is moved to trash first."
+    ),
+  createMissingDirectories: z
+    .boolean()
+    .optional()
+    .describe("If true, creates missing directories in the target path."),
+};
+
+const RestoreFromTrashParamsParser = z.object(RestoreFromTrashParams);
+type RestoreFromTrashParamsType = z.infer<typeof RestoreFromTrashParamsParser>;
+
+async function restoreFromTrashImpl(params: RestoreFromTrashParamsType) {
+  try {
+    const p = RestoreFromTrashParamsParser.parse(params);
+    if (!trashDir) {
+      return {
+        success: false,
+        result: { message: messages.trashNotConfigured },
+      };
+    }
+
+    const entry = (await readTrashEntries()).find((e) => e.id === p.id);
+    if (!entry) {
+      return {
+        success: false,
+        result: { message: messages.trashEntryNotFound(p.id) },
+      };
+    }
+
+    const targetPath = p.targetFilePath ?? entry.originalPath;
+    const pathValidation = await validatePathIsAllowed(targetPath);
+    if (!pathValidation.success) {
+      return { success: false, result: { message: pathValidation.message! } };
+    }
+
+    const targetExists = fs.existsSync(targetPath);
+    if (targetExists && !p.overwrite) {
+      return {
+        success: false,
+        result: { message: messages.trashTargetExists(targetPath) },
+      };
+    }
+
+    const targetDir = path.dirname(targetPath);
+    if (!fs.existsSync(targetDir)) {
+      if (p.createMissingDirectories) {
+        fs.mkdirSync(targetDir, { recursive: true });
+      } else {
+        return {
+          success: false,
+          result: { message: messages.directoryMissing(targetDir, targetPath) },
+        };
+      }
+    }
+
+    const oldContent =
+      targetExists && historyDepth > 0
+        ? await fs.promises.readFile(targetPath)
+        : null;
+    if (targetExists) await moveToTrash(targetPath, "overwritten", true);
+    await moveFile(
+      trashEntryPath(entry.id, TRASH_CONTENT_EXTENSION),
+      targetPath
+    );
+    await fs.promises.chmod(targetPath, entry.mode);
+    await removeTrashEntry(entry.id);
+
+    const message = messages.success.restoredFromTrash(entry.id, targetPath);
+    await recordEdit(message, [
+      contentChange(
+        targetPath,
+        oldContent,
+        historyDepth > 0 ? await fs.promises.readFile(targetPath) : null
+      ),
+    ]);
+    return { success: true, result: { message } };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const EmptyTrashParams = {
+  ids: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "If provided, only these trash entries are deleted. Otherwise all entries (optionally restricted by olderThanDays) are deleted."
+    ),
+  olderThanDays: z.coerce
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      "If provided, only entries trashed more than this many days ago are deleted."
+    ),
+};
+
+const EmptyTrashParamsParser = z.object(EmptyTrashParams);
+type EmptyTrashParamsType = z.infer<typeof EmptyTrashParamsParser>;
+
+async function emptyTrashImpl(params: EmptyTrashParamsType) {
+  try {
+    const p = EmptyTrashParamsParser.parse(params);
+    if (!trashDir) {
+      return {
+        success: false,
+        result: { message: messages.trashNotConfigured },
+      };
+    }
+
+    const trashedBefore =
+      p.olderThanDays !== undefined
+        ? Date.now() - p.olderThanDays * 24 * 60 * 60 * 1000
+        : undefined;
+    const entries = (await readTrashEntries()).filter(
+      (e) =>
+        (!p.ids || p.ids.includes(e.id)) &&
+        (trashedBefore === undefined ||
+          new Date(e.trashedAt).getTime() < trashedBefore)
+    );
+    for (const entry of entries) await removeTrashEntry(entry.id);
+
+    return {
+      success: true,
+      result: { message: messages.success.trashEmptied(entries.length) },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const ReadFileParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("read", true)),
+  startLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("1-based line number to start reading from. Defaults to 1."),
+  startColumn: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "1-based column of startLine to start reading from. Defaults to 1. Used to continue reading a line longer than maxCharacters."
+    ),
+  endLine: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe(
+      "1-based line number (inclusive) to stop reading at. Defaults to the last line of the file."
+    ),
+  includeLineNumbers: z.coerce
+    .boolean()
+    .default(true)
+    .optional()
+    .describe(
+      "If true, each line is prefixed with its line number followed by ' | '. The prefix is not part of the file content and must not be used in searchText."
+    ),
+  maxCharacters: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(50000)
+    .optional()
+    .describe(
+      "Maximum number of characters to return. Output is truncated at a line boundary (or within a single line longer than this) and a hint to continue reading is returned."
+    ),
+  encoding: EditOptionsParams.encoding,
+};
+
+const ReadFileParamsParser = z.object(ReadFileParams);
+type ReadFileParamsType = z.infer<typeof ReadFileParamsParser>;
+
+function splitLines(rawText: string): string[] {
+  if (rawText.length === 0) return [];
+  const lines = rawText.split(/\r\n|\n|\r/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+async function readFileImpl(params: ReadFileParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    content?: string;
+    startLine?: number;
+    endLine?: number;
+    totalLines?: number;
+    truncated?: boolean;
+    nextStartLine?: number;
+    nextStartColumn?: number;
+    contentHash?: string;
+    encoding?: TextEncoding;
+    bom?: boolean;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = ReadFileParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(
+      p.filePath,
+      true,
+      false
+    );
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText, fileEncoding } = await readTextFile(
+      p.filePath,
+      p.encoding
+    );
+    const lines = splitLines(rawText);
+    const totalLines = lines.length;
+
+    if (totalLines === 0) {
+      return {
+        success: true,
+        result: {
+          message: messages.success.read(p.filePath, 0, 0, 0),
+          content: "",
+          startLine: 0,
+          endLine: 0,
+          totalLines: 0,
+          truncated: false,
+          contentHash: computeContentHash(rawText),
+          ...fileEncoding,
+        },
+      };
+    }
+
+    const startLine = p.startLine ?? 1;
+    const requestedEndLine = Math.min(p.endLine ?? totalLines, totalLines);
+    if (startLine > totalLines || startLine > requestedEndLine) {
+      return {
+        success: false,
+        result: {
+          message: messages.invalidLineRange(
+            startLine,
+            p.endLine ?? totalLines,
+            totalLines
+          ),
+        },
+      };
+    }
+
+    const maxCharacters = p.maxCharacters ?? 50000;
+    const lineNumberWidth = String(requestedEndLine).length;
+    const outputLines: string[] = [];
+    let outputLength = 0;
+    let endLine = startLine - 1;
+    // Set when only the beginning of endLine was returned
+    let nextStartColumn: number | undefined;
+
+    for (let lineNo = startLine; lineNo <= requestedEndLine; lineNo++) {
+      const column = lineNo === startLine ? p.startColumn ?? 1 : 1;
+      const text =
+        column > 1
+          ? Array.from(lines[lineNo - 1])
+              .slice(column - 1)
+              .join("")
+          : lines[lineNo - 1];
+      const prefix =
+        p.includeLineNumbers ?? true
+          ? `${String(lineNo).padStart(lineNumberWidth)} | `
+          : "";
+      const line = prefix + text;
+
+      const separatorLength = outputLines.length > 0 ? 1 : 0;
+      if (outputLength + separatorLength + line.length > maxCharacters) {
+        // Always return at least part of one line so that reading progresses,
+        // the rest of the line is read by continuing from a column
+        if (outputLines.length === 0) {
+          const characters = Array.from(text);
+          const fittingCount = Math.max(maxCharacters - prefix.length, 1);
+          outputLines.push(prefix + characters.slice(0, fittingCount).join(""));
+          endLine = lineNo;
+          if (fittingCount < characters.length) {
+            nextStartColumn = column + fittingCount;
+          }
+        }
+        break;
+      }
+
+      outputLines.push(line);
+      outputLength += separatorLength + line.length;
+      endLine = lineNo;
+    }
+
+    const nextStartLine = nextStartColumn !== undefined ? endLine : endLine + 1;
+    const truncated = nextStartLine <= requestedEndLine;
+    const message = truncated
+      ? `${messages.success.read(
+          p.filePath,
+          startLine,
+          endLine,
+          totalLines
+        )} ${messages.readTruncated(
+          nextStartLine,
+          maxCharacters,
+          nextStartColumn
+        )}`
+      : messages.success.read(p.filePath, startLine, endLine, totalLines);
+
+    return {
+      success: true,
+      result: {
+        message,
+        content: outputLines.join("\n"),
+        startLine,
+        endLine,
+        totalLines,
+        truncated,
+        ...(truncated ? { nextStartLine } : {}),
+        ...(nextStartColumn !== undefined ? { nextStartColumn } : {}),
+        contentHash: computeContentHash(rawText),
+        ...fileEncoding,
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const SearchInFileParams = {
+  filePath: z
+    .string()
+    .describe(messages.descriptions.fileToBeOperatedOn("searched", true)),
+  searchText: z
+    .string()
+    .describe("Text to search for. " + messages.descriptions.searchText),
+  contextLines: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(2)
+    .optional()
+    .describe(
+      "Number of lines to include before and after each match. Defaults to 2."
+    ),
+  maxMatches: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(50)
+    .optional()
+    .describe("Maximum number of matches to return. Defaults to 50."),
+  ...MatchOptionsParams,
+  encoding: EditOptionsParams.encoding,
+};
+
+const SearchInFileParamsParser = z.object(SearchInFileParams);
+type SearchInFileParamsType = z.infer<typeof SearchInFileParamsParser>;
+
+type SearchMatch = {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+  matchedText: string;
+  contextStartLine: number;
+  context: string;
+};
+
+function buildSearchMatch(
+  span: MatchSpan,
+  rawTextChars: string[],
+  lineStarts: number[],
+  contextLines: number
+): SearchMatch {
+  const start = rawOffsetToLineColumn(span.rawStart, lineStarts);
+  const end = rawOffsetToLineColumn(
+    Math.max(span.rawStart, span.rawEndExclusive - 1),
+    lineStarts
+  );
+  const totalLines = countLines(rawTextChars, lineStarts);
+  const contextStartLine = Math.max(1, start.line - contextLines);
+  const contextEndLine = Math.min(totalLines, end.line + contextLines);
+
+  return {
+    startLine: start.line,
+    startColumn: start.column,
+    endLine: end.line,
+    endColumn: end.column,
+    matchedText: sliceBySpan(rawTextChars, span),
+    contextStartLine,
+    context: sliceLines(
+      rawTextChars,
+      lineStarts,
+      contextStartLine,
+      contextEndLine
+    ),
+  };
+}
+
+async function searchInFileImpl(params: SearchInFileParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    matches?: SearchMatch[];
+    contentHash?: string;
+    SuggestedParameterValues?: SuggestedParameterValue[];
+  };
+}> {
+  try {
+    const p = SearchInFileParamsParser.parse(params);
+
+    const fileValidation = await validateTextFileToEdit(
+      p.filePath,
+      true,
+      false
+    );
+    if (!fileValidation.success) {
+      return {
+        success: false,
+        result: {
+          message: fileValidation.message!,
+          SuggestedParameterValues: fileValidation.SuggestedParameterValues,
+        },
+      };
+    }
+
+    const { text: rawText } = await readTextFile(p.filePath, p.encoding);
+    const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } =
+      buildFlatRawTextHelpers(rawText);
+
+    const maxMatches = p.maxMatches ?? 50;
+    const { spans, isExactMatch } = findMatchSpans(
+      flatRawText,
+      normalizeText(p.searchText),
+      rawTextChars,
+      flatRawToRaw,
+      rawToFlatRaw,
+      maxMatches + 1,
+      p
+    );
+
+    if (!isExactMatch || spans.length === 0) {
+      return handleSearchTextMatchIssues(
+        spans,
+        rawTextChars,
+        flatRawText,
+        rawToFlatRaw,
+        messages.noMatchFound,
+        "searchText",
+        p.searchText,
+        p
+      );
+    }
+
+    const hasMoreMatches = spans.length > maxMatches;
+    const lineStarts = buildLineStartOffsets(rawTextChars);
+    const matches = spans
+      .slice(0, maxMatches)
+      .map((span) =>
+        buildSearchMatch(span, rawTextChars, lineStarts, p.contextLines ?? 2)
+      );
+
+    return {
+      success: true,
+      result: {
+        message: messages.success.found(
+          p.filePath,
+          matches.length,
+          hasMoreMatches
+        ),
+        matches,
+        contentHash: computeContentHash(rawText),
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+function globToRegExp(glob: string): RegExp {
+  let regex = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    switch (char) {
+      case "*":
+        if (glob[i + 1] === "*") {
+          // "**/" matches zero or more directories
+          if (glob[i + 2] === "/") {
+            regex += "(?:.*/)?";
+            i += 2;
+          } else {
+            regex += ".*";
+            i++;
+          }
+        } else {
+          regex += "[^/]*";
+        }
+        break;
+      case "?":
+        regex += "[^/]";
+        break;
+      case "{":
+        inGroup = true;
+        regex += "(?:";
+        break;
+      case "}":
+        regex += inGroup ? ")" : "\\}";
+        inGroup = false;
+        break;
+      case ",":
+        regex += inGroup ? "|" : ",";
+        break;
+      case "[": {
+        const closeIndex = glob.indexOf("]", i + 1);
+        if (closeIndex === -1) {
+          regex += "\\[";
+          break;
+        }
+        let charClass = glob.slice(i + 1, closeIndex).replace(/\\/g, "\\\\");
+        if (charClass.startsWith("!")) charClass = "^" + charClass.slice(1);
+        regex += `[${charClass}]`;
+        i = closeIndex;
+        break;
+      }
+      default:
+        regex += char.replace(/[.+^$()|\\\]]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+function matchesAnyGlob(relativePath: string, globs: string[]): boolean {
+  return globs.some((glob) =>
+    // Globs without a path separator are matched against the name alone
+    globToRegExp(glob).test(
+      glob.includes("/") ? relativePath : path.posix.basename(relativePath)
+    )
+  );
+}
+
+function computeSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length === 0 || b.length === 0) return 0;
+
+  // Levenshtein distance using two rolling rows
+  let previousRow = new Int32Array(b.length + 1);
+  let currentRow = new Int32Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previousRow[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    currentRow[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const substitutionCost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + substitutionCost
+      );
+    }
+    [previousRow, currentRow] = [currentRow, previousRow];
+  }
+
+  return 1 - previousRow[b.length] / Math.max(a.length, b.length);
+}
+
+const DEFAULT_EXCLUDE_GLOBS = ["node_modules", ".git"];
+
+const SearchAcrossFilesParams = {
+  directoryPath: z
+    .string()
+    .describe(
+      "Absolute or relative path to the directory to search in. Sub-directories are searched recursively."
+    ),
+  searchText: z
+    .string()
+    .describe("Text to search for. " + messages.descriptions.searchText),
+  includeGlobs: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "If provided, only files matching at least one of these globs are searched, for e.g. ['**/*.ts', 'src/**']. Globs are relative to directoryPath. Globs without '/' are matched against file names."
+    ),
+  excludeGlobs: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Files and directories matching any of these globs are skipped. Defaults to ['node_modules', '.git']. Globs without '/' are matched against file and directory names."
+    ),
+  contextLines: z.coerce
+    .number()
+    .int()
+    .min(0)
+    .default(0)
+    .optional()
+    .describe(
+      "Number of lines to include before and after each match. Defaults to 0."
+    ),
+  maxMatches: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(100)
+    .optional()
+    .describe("Maximum number of matches to return. Defaults to 100."),
+  ...MatchOptionsParams,
+  encoding: EditOptionsParams.encoding,
+};
+
+const SearchAcrossFilesParamsParser = z.object(SearchAcrossFilesParams);
+type SearchAcrossFilesParamsType = z.infer<
+  typeof SearchAcrossFilesParamsParser
+>;
+
+async function collectFilesToSearch(
+  rootDir: string,
+  includeGlobs: string[] | undefined,
+  excludeGlobs: string[]
+): Promise<{ files: string[]; skippedCount: number }> {
+  const files: string[] = [];
+  const pendingDirs = [""];
+  // Sub-directories which could not be read, e.g. due to permissions or
+  // because they were removed while searching
+  let skippedCount = 0;
+
+  while (pendingDirs.length > 0) {
+    const relativeDir = pendingDirs.shift()!;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(path.join(rootDir, relativeDir), {
+        withFileTypes: true,
+      });
+    } catch (err) {
+      if (!relativeDir) throw err;
+      skippedCount++;
+      continue;
+    }
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+      if (matchesAnyGlob(relativePath, excludeGlobs)) continue;
+
+      if (entry.isDirectory()) {
+        pendingDirs.push(relativePath);
+      } else if (
+        entry.isFile() &&
+        (!includeGlobs || matchesAnyGlob(relativePath, includeGlobs))
+      ) {
+        files.push(relativePath);
+      }
+    }
+  }
+
+  return { files, skippedCount };
+}
+
+async function searchAcrossFilesImpl(
+  params: SearchAcrossFilesParamsType
+): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    matches?: (SearchMatch & { filePath: string })[];
+    SuggestedParameterValues?: {
+      filePath: string;
+      searchText: string;
+      startLine: number;
+      similarity: number;
+    }[];
+  };
+}> {
+  try {
+    const p = SearchAcrossFilesParamsParser.parse(params);
+
+    const pathValidation = await validatePathIsAllowed(p.directoryPath);
+    if (!pathValidation.success) {
+      return { success: false, result: { message: pathValidation.message! } };
+    }
+
+    if (
+      !fs.existsSync(p.directoryPath) ||
+      !(await fs.promises.stat(p.directoryPath)).isDirectory()
+    ) {
+      return {
+        success: false,
+        result: { message: messages.directoryNotExist(p.directoryPath) },
+      };
+    }
+
+    const flatSearchText = normalizeText(p.searchText);
+    if (flatSearchText.length === 0) {
+      return {
+        success: false,
+        result: { message: messages.paramMissing("searchText") },
+      };
+    }
+
+    const maxMatches = p.maxMatches ?? 100;
+    const { files: relativeFilePaths, skippedCount } =
+      await collectFilesToSearch(
+        p.directoryPath,
+        p.includeGlobs,
+        p.excludeGlobs ?? DEFAULT_EXCLUDE_GLOBS
+      );
+
+    const matches: (SearchMatch & { filePath: string })[] = [];
+    const nearMisses: {
+      filePath: string;
+      searchText: string;
+      startLine: number;
+      similarity: number;
+    }[] = [];
+    const filesWithMatches = new Set<string>();
+    let filesSearched = 0;
+    let entriesSkipped = skippedCount;
+    let hasMoreMatches = false;
+
+    for (const relativeFilePath of relativeFilePaths) {
+      const filePath = path.join(p.directoryPath, relativeFilePath);
+      let rawText: string;
+      try {
+        if (await isBinaryFile(filePath)) continue;
+        rawText = (await readTextFile(filePath, p.encoding)).text;
+      } catch {
+        // A file that is unreadable or was removed since it was listed must
+        // not fail the whole search
+        entriesSkipped++;
+        continue;
+      }
+
+      filesSearched++;
+      const { rawTextChars, flatRawText, flatRawToRaw, rawToFlatRaw } =
+        buildFlatRawTextHelpers(rawText);
+
+      const { spans, isExactMatch } = findMatchSpans(
+        flatRawText,
+        flatSearchText,
+        rawTextChars,
+        flatRawToRaw,
+        rawToFlatRaw,
+        maxMatches - matches.length + 1,
+        p
+      );
+      if (spans.length === 0) continue;
+
+      const lineStarts = buildLineStartOffsets(rawTextChars);
+      if (isExactMatch) {
+        for (const span of spans) {
+          if (matches.length === maxMatches) {
+            hasMoreMatches = true;
+            break;
+          }
+          filesWithMatches.add(filePath);
+          matches.push({
+            filePath,
+            ...buildSearchMatch(
+              span,
+              rawTextChars,
+              lineStarts,
+              p.contextLines ?? 0
+            ),
+          });
+        }
+        if (hasMoreMatches) break;
+      } else if (matches.length === 0) {
+        for (const span of spans) {
+          nearMisses.push({
+            filePath,
+            searchText: sliceBySpan(rawTextChars, span),
+            startLine: rawOffsetToLineColumn(span.rawStart, lineStarts).line,
+            similarity: computeSimilarity(
+              flatRawText.slice(span.flatStart, span.flatEndExclusive),
+              flatSearchText
+            ),
+          });
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      return {
+        success: false,
+        result: {
+          message: messages.noMatchFoundInDirectory(
+            p.directoryPath,
+            entriesSkipped
+          ),
+          SuggestedParameterValues: nearMisses
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, 5)
+            .map((m) => ({
+              ...m,
+              similarity: Math.round(m.similarity * 100) / 100,
+            })),
+        },
+      };
+    }
+
+    return {
+      success: true,
+      result: {
+        message: messages.success.foundAcrossFiles(
+          p.directoryPath,
+          matches.length,
+          filesWithMatches.size,
+          filesSearched,
+          hasMoreMatches,
+          entriesSkipped
+        ),
+        matches,
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+const ListDirectoryParams = {
+  directoryPath: z
+    .string()
+    .describe("Absolute or relative path to the directory to list."),
+  depth: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(1)
+    .optional()
+    .describe(
+      "How many directory levels to list. 1 lists only the direct children of directoryPath, 2 also lists the children of its sub-directories and so on. Defaults to 1."
+    ),
+  includeGlobs: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "If provided, only files matching at least one of these globs are listed, for e.g. ['**/*.ts', 'src/**']. Directories are always listed. Globs are relative to directoryPath. Globs without '/' are matched against file names."
+    ),
+  excludeGlobs: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "Files and directories matching any of these globs are not listed. Defaults to ['node_modules', '.git']. Globs without '/' are matched against file and directory names."
+    ),
+  respectGitignore: z
+    .boolean()
+    .default(true)
+    .optional()
+    .describe(
+      "If true, files and directories ignored by .gitignore files found in the listed directories are not listed. Defaults to true."
+    ),
+  maxEntries: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(500)
+    .optional()
+    .describe(
+      "Maximum number of entries to return. Shallower entries are listed first. Defaults to 500."
+    ),
+};
+
+const ListDirectoryParamsParser = z.object(ListDirectoryParams);
+type ListDirectoryParamsType = z.infer<typeof ListDirectoryParamsParser>;
+
+type DirectoryEntry = {
+  path: string;
+  type: "file" | "directory" | "symlink";
+  size?: number;
+  modifiedTime: string;
+  isBinary?: boolean;
+  // Symbolic links are listed but not followed
+  linkTarget?: string;
+};
+
+type GitignoreRule = {
+  regex: RegExp;
+  // Directory (relative to the listed root) containing the .gitignore file
+  baseDir: string;
+  matchesPath: boolean;
+  negated: boolean;
+  directoryOnly: boolean;
+};
+
+function parseGitignore(text: string, baseDir: string): GitignoreRule[] {
+  const rules: GitignoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let pattern = rawLine.trimEnd();
+    if (pattern.length === 0 || pattern.startsWith("#")) continue;
+
+    const negated = pattern.startsWith("!");
+    if (negated) pattern = pattern.slice(1);
+    if (pattern.startsWith("\\")) pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) pattern = pattern.slice(0, -1);
+    // Patterns with a separator are relative to the .gitignore directory,
+    // others match names at any depth below it
+    const matchesPath = pattern.includes("/");
+    if (pattern.startsWith("/")) pattern = pattern.slice(1);
+    if (pattern.length === 0) continue;
+
+    rules.push({
+      regex: globToRegExp(pattern),
+      baseDir,
+      matchesPath,
+      negated,
+      directoryOnly,
+    });
+  }
+  return rules;
+}
+
+function isGitignored(
+  relativePath: string,
+  isDirectory: boolean,
+  rules: GitignoreRule[]
+): boolean {
+  // Later rules take precedence, so a negated rule can re-include a path
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const pathFromBase = rule.baseDir
+      ? relativePath.slice(rule.baseDir.length + 1)
+      : relativePath;
+    const subject = rule.matchesPath
+      ? pathFromBase
+      : path.posix.basename(relativePath);
+    if (rule.regex.test(subject)) ignored = !rule.negated;
+  }
+  return ignored;
+}
+
+async function readGitignoreRules(
+  rootDir: string,
+  relativeDir: string
+): Promise<GitignoreRule[]> {
+  try {
+    const text = await fs.promises.readFile(
+      path.join(rootDir, relativeDir, ".gitignore"),
+      "utf-8"
+    );
+    return parseGitignore(text, relativeDir);
+  } catch {
+    return [];
+  }
+}
+
+async function collectDirectoryEntries(
+  rootDir: string,
+  p: ListDirectoryParamsType
+): Promise<{
+  entries: DirectoryEntry[];
+  truncated: boolean;
+  skippedCount: number;
+}> {
+  const depth = p.depth ?? 1;
+  const maxEntries = p.maxEntries ?? 500;
+  const excludeGlobs = p.excludeGlobs ?? DEFAULT_EXCLUDE_GLOBS;
+  const entries: DirectoryEntry[] = [];
+  // Directories are listed breadth first so that a truncated listing still
+  // gives an overview of the shallower levels
+  const pendingDirs: {
+    relativeDir: string;
+    level: number;
+    rules: GitignoreRule[];
+  }[] = [{ relativeDir: "", level: 1, rules: [] }];
+  // Entries which could not be read, e.g. due to permissions or because they
+  // were removed while listing
+  let skippedCount = 0;
+
+  while (pendingDirs.length > 0) {
+    const { relativeDir, level, rules: parentRules } = pendingDirs.shift()!;
+    let dirents: fs.Dirent[];
+    try {
+      dirents = await fs.promises.readdir(path.join(rootDir, relativeDir), {
+        withFileTypes: true,
+      });
+    } catch (err) {
+      if (!relativeDir) throw err;
+      skippedCount++;
+      continue;
+    }
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+
+    const rules =
+      (p.respectGitignore ?? true) &&
+      dirents.some((d) => d.name === ".gitignore" && d.isFile())
+        ? [...parentRules, ...(await readGitignoreRules(rootDir, relativeDir))]
+        : parentRules;
+
+    for (const dirent of dirents) {
+      const isDirectory = dirent.isDirectory();
+      const isSymlink = dirent.isSymbolicLink();
+      if (!isDirectory && !isSymlink && !dirent.isFile()) continue;
+
+      const relativePath = relativeDir
+        ? `${relativeDir}/${dirent.name}`
+        : dirent.name;
+      if (matchesAnyGlob(relativePath, excludeGlobs)) continue;
+      if (isGitignored(relativePath, isDirectory, rules)) continue;
+      if (
+        !isDirectory &&
+        p.includeGlobs &&
+        !matchesAnyGlob(relativePath, p.includeGlobs)
+      ) {
+        continue;
+      }
+
+      if (entries.length === maxEntries) {
+        return { entries, truncated: true, skippedCount };
+      }
+
+      const entryPath = path.join(rootDir, relativePath);
+      try {
+        if (isSymlink) {
+          const stats = await fs.promises.lstat(entryPath);
+          entries.push({
+            path: relativePath,
+            type: "symlink",
+            modifiedTime: stats.mtime.toISOString(),
+            linkTarget: await fs.promises.readlink(entryPath),
+          });
+          continue;
+        }
+        const stats = await fs.promises.stat(entryPath);
+        entries.push(
+          isDirectory
+            ? {
+                path: relativePath,
+                type: "directory",
+                modifiedTime: stats.mtime.toISOString(),
+              }
+            : {
+                path: relativePath,
+                type: "file",
+                size: stats.size,
+                modifiedTime: stats.mtime.toISOString(),
+                isBinary: await isBinaryFile(entryPath),
+              }
+        );
+      } catch {
+        skippedCount++;
+        continue;
+      }
+      if (isDirectory && level < depth) {
+        pendingDirs.push({
+          relativeDir: relativePath,
+          level: level + 1,
+          rules,
+        });
+      }
+    }
+  }
+
+  return { entries, truncated: false, skippedCount };
+}
+
+function renderDirectoryTree(entries: DirectoryEntry[]): string {
+  const children = new Map<string, DirectoryEntry[]>();
+  for (const entry of entries) {
+    const parent = path.posix.dirname(entry.path);
+    const key = parent === "." ? "" : parent;
+    if (!children.has(key)) children.set(key, []);
+    children.get(key)!.push(entry);
+  }
+
+  const lines: string[] = [];
+  const render = (dir: string, indentation: string) => {
+    for (const entry of children.get(dir) ?? []) {
+      const name = path.posix.basename(entry.path);
+      lines.push(
+        entry.type === "directory"
+          ? `${indentation}${name}/`
+          : entry.type === "symlink"
+          ? `${indentation}${name} -> ${entry.linkTarget}`
+          : `${indentation}${name} (${entry.size} bytes${
+              entry.isBinary ? ", binary" : ""
+            })`
+      );
+      if (entry.type === "directory") render(entry.path, indentation + "  ");
+    }
+  };
+  render("", "");
+  return lines.join("\n");
+}
+
+async function listDirectoryImpl(params: ListDirectoryParamsType): Promise<{
+  success: boolean;
+  result: {
+    message: string;
+    tree?: string;
+    entries?: DirectoryEntry[];
+    truncated?: boolean;
+  };
+}> {
+  try {
+    const p = ListDirectoryParamsParser.parse(params);
+
+    const pathValidation = await validatePathIsAllowed(p.directoryPath);
+    if (!pathValidation.success) {
+      return { success: false, result: { message: pathValidation.message! } };
+    }
+
+    if (
+      !fs.existsSync(p.directoryPath) ||
+      !(await fs.promises.stat(p.directoryPath)).isDirectory()
+    ) {
+      return {
+        success: false,
+        result: { message: messages.directoryNotExist(p.directoryPath) },
+      };
+    }
+
+    const { entries, truncated, skippedCount } = await collectDirectoryEntries(
+      p.directoryPath,
+      p
+    );
+
+    return {
+      success: true,
+      result: {
+        message: messages.success.listed(
+          p.directoryPath,
+          entries.length,
+          truncated,
+          skippedCount
+        ),
+        tree: renderDirectoryTree(entries),
+        entries,
+        truncated,
+      },
+    };
+  } catch (err) {
+    return {
+      success: false,
+      result: { message: messages.unexpectedError((err as Error).message) },
+    };
+  }
+}
+
+// ======================
+// SERVER REGISTRATION
+// ======================
+
+const SuggestionDetailsOutputSchema = {
+  startLine: z.number().optional(),
+  endLine: z.number().optional(),
+  similarity: z.number().optional(),
+  matchType: z.string().optional(),
+  diff: z.string().optional(),
+};
+
+const OperationResultsOutputSchema = z
+  .array(
+    z.object({
+      operationIndex: z.number(),
+      message: z.string(),
+      SuggestedParameterValues: z
+        .array(z.record(z.union([z.string(), z.number()])))
+        .optional()
+        .describe(
+          `${messages.descriptions.suggestedParamArray} ${messages.descriptions.suggestionDetails} ${messages.descriptions.pathSuggestions}`
+        ),
+    })
+  )
+  .optional();
+
+const server = new McpServer(
+  { name: "file_tools_server", version: "1.0.0", title: "File editing tools" },
+  { capabilities: { tools: { listChanged: true } } }
+);
+
+server.registerTool(
+  "replace_matching_text",
+  {
+    title: "Replace Matching Text",
+    description: messages.descriptions.searchAndActionTool(
+      "searchText",
+      "replace"
+    ),
+    inputSchema: ReplaceMatchingTextParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      SuggestedParameterValues: z
+        .array(
+          z.object({
+            searchText: z.string().optional(),
+            filePath: z.string().optional(),
+            ...SuggestionDetailsOutputSchema,
+          })
+        )
+        .optional()
+        .describe(
+          `${messages.descriptions.suggestedParamArray} ${messages.descriptions.suggestionDetails} ${messages.descriptions.pathSuggestions}`
+        ),
+      substitutions: z
+        .array(
+          z.object({
+            line: z.number(),
+            matchedText: z.string(),
+            replacementText: z.string(),
+          })
+        )
+        .optional()
+        .describe(messages.descriptions.substitutions),
+    },
+  },
+  async (params) => {
+    const result = await replaceMatchingTextImpl(params);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "delete_matching_text",
+  {
+    title: "Delete Matching Text",
+    description: messages.descriptions.searchAndActionTool(
+      "searchText",
+      "delete"
+    ),
+    inputSchema: DeleteMatchingTextParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      SuggestedParameterValues: z
+        .array(
+          z.object({
+            searchText: z.string().optional(),
+            filePath: z.string().optional(),
+            ...SuggestionDetailsOutputSchema,
+          })
+        )
+        .optional()
+        .describe(
+          `${messages.descriptions.suggestedParamArray} ${messages.descriptions.suggestionDetails} ${messages.descriptions.pathSuggestions}`
+        ),
+    },
+  },
+  async (params) => {
+    const result = await deleteMatchingTextImpl(
+      params as DeleteMatchingTextParamsType
+    );
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "create_file",
+  {
+    title: "Create File",
+    description:
+      "Create a new file with optional initial content. Fails if file already exists.",
+    inputSchema: CreateFileParams,
+    outputSchema: { message: z.string() },
+  },
+  async (params) => {
+    const result = await createFileImpl(params as CreateFileParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "overwrite_file_content",
+  {
+    title: "Overwrite File Content",
+    description: "Completely overwrites an existing file with new content.",
+    inputSchema: OverwriteFileContentParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
+    },
+  },
+  async (params) => {
+    const result = await overwriteFileContentImpl(
+      params as OverwriteFileContentParamsType
+    );
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "append_text_to_file",
+  {
+    title: "Append Text to File",
+    description:
+      "Append text to the end of an existing file, optionally ensuring a newline separator.",
+    inputSchema: AppendTextToFileParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
+    },
+  },
+  async (params) => {
+    const result = await appendTextToFileImpl(
+      params as AppendTextToFileParamsType
+    );
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "insert_text",
+  {
+    title: "Insert Text",
+    description: messages.descriptions.searchAndActionTool(
+      "anchorText",
+      "insert immediately after/before",
+      false
+    ),
+    inputSchema: InsertTextParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      SuggestedParameterValues: z
+        .array(
+          z.object({
+            searchText: z.string().optional(),
+            anchorBlockStartMarker: z.string().optional(),
+            anchorBlockEndMarker: z.string().optional(),
+            filePath: z.string().optional(),
+            ...SuggestionDetailsOutputSchema,
+          })
+        )
+        .optional()
+        .describe(
+          `${messages.descriptions.suggestedParamArray} ${messages.descriptions.suggestionDetails} ${messages.descriptions.pathSuggestions}`
+        ),
+    },
+  },
+  async (params) => {
+    const result = await insertTextImpl(params as InsertTextParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "move_text",
+  {
+    title: "Move Text",
+    description: messages.descriptions.searchAndActionTool(
+      "anchorText",
+      "insert immediately after/before",
+      false
+    ),
+    inputSchema: MoveTextParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      SuggestedParameterValues: z
+        .array(
+          z.object({
+            textToBeMoved: z.string().optional(),
+            searchText: z.string().optional(),
+            anchorBlockStartMarker: z.string().optional(),
+            anchorBlockEndMarker: z.string().optional(),
+            filePath: z.string().optional(),
+            ...SuggestionDetailsOutputSchema,
+          })
+        )
+        .optional()
+        .describe(
+          `${messages.descriptions.suggestedParamArray} ${messages.descriptions.suggestionDetails} ${messages.descriptions.pathSuggestions}`
+        ),
+    },
+  },
+  async (params) => {
+    const result = await moveTextImpl(params as MoveTextParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+const LineRangeEditOutputSchema = {
+  message: z.string(),
+  ...EditResultOutputSchema,
+  actualContent: z.string().optional(),
+  SuggestedParameterValues: PathSuggestionsOutputSchema,
+};
+
+server.registerTool(
+  "replace_lines",
+  {
+    title: "Replace Lines",
+    description:
+      "Replaces the content of a 1-based line range (for e.g. taken from a compiler error or read_file output) with the provided text. Use expectedContent to make sure the line numbers are not stale. Prefer replace_matching_text when you do not know exact line numbers.",
+    inputSchema: ReplaceLinesParams,
+    outputSchema: LineRangeEditOutputSchema,
+  },
+  async (params) => {
+    const result = await replaceLinesImpl(params as ReplaceLinesParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "delete_lines",
+  {
+    title: "Delete Lines",
+    description:
+      "Deletes the lines of a 1-based line range including their line endings. Use expectedContent to make sure the line numbers are not stale. Prefer delete_matching_text when you do not know exact line numbers.",
+    inputSchema: DeleteLinesParams,
+    outputSchema: LineRangeEditOutputSchema,
+  },
+  async (params) => {
+    const result = await deleteLinesImpl(params as DeleteLinesParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "insert_at_line",
+  {
+    title: "Insert At Line",
+    description:
+      "Inserts text as whole lines before the given 1-based line, or after the last line. Use expectedContent to make sure the line number is not stale. Prefer insert_text when you do not know exact line numbers.",
+    inputSchema: InsertAtLineParams,
+    outputSchema: LineRangeEditOutputSchema,
+  },
+  async (params) => {
+    const result = await insertAtLineImpl(params as InsertAtLineParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "apply_edits",
+  {
+    title: "Apply Edits",
+    description:
+      "Safely applies several replace/delete/insert/move operations to one file in a single atomic step: either every operation succeeds and the file is written once, or nothing is changed and the reason for each failed operation is returned. Matching does not fail due to formatting differences (whitespaces and new lines). Provides targeted guidance to correct yourself if the tool fails.",
+    inputSchema: ApplyEditsParams,
+    outputSchema: {
+      message: z.string(),
+      ...EditResultOutputSchema,
+      operationResults: OperationResultsOutputSchema,
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
+    },
+  },
+  async (params) => {
+    const result = await applyEditsImpl(params as ApplyEditsParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "apply_multi_file_edits",
+  {
+    title: "Apply Multi File Edits",
+    description:
+      "Safely applies replace/delete/insert/move operations across several files as a single transaction: every file is validated and all edits are resolved in memory first, and files are written only if everything succeeds. If writing any file fails, files already written are restored. Use it for refactors spanning multiple files (for e.g. renaming a function and its call sites). Matching does not fail due to formatting differences (whitespaces and new lines).",
+    inputSchema: ApplyMultiFileEditsParams,
+    outputSchema: {
+      message: z.string(),
+      fileResults: z
+        .array(
+          z.object({
+            filePath: z.string(),
+            message: z.string().optional(),
+            ...EditResultOutputSchema,
+            operationResults: OperationResultsOutputSchema,
+            SuggestedParameterValues: PathSuggestionsOutputSchema,
+          })
+        )
+        .optional(),
+    },
+  },
+  async (params) => {
+    const result = await applyMultiFileEditsImpl(
+      params as ApplyMultiFileEditsParamsType
+    );
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
+
+server.registerTool(
+  "move_or_rename_file",
+  {
+    title: "Move or Rename File",
+    description:
+      "Renames or moves a file to a new path. Fails if target already exists.",
+    inputSchema: MoveOrRenameFileParams,
+    outputSchema: {
+      message: z.string(),
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
+    },
+  },
+  async (params) => {
+    const result = await moveOrRenameFileImpl(
+      params as MoveOrRenameFileParamsType
+    );
     return {
-      success: true,
-      result: {
-        message: messages.success.renamed(p.sourceFilePath, p.targetFilePath),
-      },
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
     };
-  } catch (err) {
+  }
+);
+
+server.registerTool(
+  "delete_file",
+  {
+    title: "Delete File",
+    description:
+      "Deletes a file. Requires write permissions and file must exist.",
+    inputSchema: DeleteFileParams,
+    outputSchema: {
+      message: z.string(),
+      contentHash: EditResultOutputSchema.contentHash,
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
+    },
+  },
+  async (params) => {
+    const result = await deleteFileImpl(params as DeleteFileParamsType);
     return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
     };
   }
-}
-
-const DeleteFileParams = {
-  filePath: z
-    .string()
-    .describe(messages.descriptions.fileToBeOperatedOn("deleted", true)),
-};
+);
 
-const DeleteFileParamsParser = z.object(DeleteFileParams);
-type DeleteFileParamsType = z.infer<typeof DeleteFileParamsParser>;
+const HistoryEntriesOutputSchema = z
+  .array(
+    z.object({
+      id: z.number(),
+      timestamp: z.string(),
+      description: z.string(),
+      filePaths: z.array(z.string()),
+    })
+  )
+  .optional();
 
-async function deleteFileImpl(params: DeleteFileParamsType) {
-  try {
-    const p = DeleteFileParamsParser.parse(params);
+server.registerTool(
+  "create_directory",
+  {
+    title: "Create Directory",
+    description:
+      "Creates a new directory, optionally along with its missing parent directories. Fails if the path already exists. Can be undone with undo_last_edit while the directory is empty.",
+    inputSchema: CreateDirectoryParams,
+    outputSchema: { message: z.string() },
+  },
+  async (params) => {
+    const result = await createDirectoryImpl(
+      params as CreateDirectoryParamsType
+    );
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
 
-    const fileValidation = await validateTextFileToEdit(p.filePath, false);
-    if (!fileValidation.success) {
-      return { success: false, result: { message: fileValidation.message! } };
-    }
-    await fs.promises.unlink(p.filePath);
+server.registerTool(
+  "move_or_rename_directory",
+  {
+    title: "Move or Rename Directory",
+    description:
+      "Renames or moves a directory along with everything in it to a new path in a single operation. Fails if the target already exists. Use it to reorganize packages instead of moving files one by one.",
+    inputSchema: MoveOrRenameDirectoryParams,
+    outputSchema: { message: z.string() },
+  },
+  async (params) => {
+    const result = await moveOrRenameDirectoryImpl(
+      params as MoveOrRenameDirectoryParamsType
+    );
     return {
-      success: true,
-      result: { message: messages.success.fileDeleted(p.filePath) },
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
     };
-  } catch (err) {
+  }
+);
+
+server.registerTool(
+  "delete_directory",
+  {
+    title: "Delete Directory",
+    description:
+      "Deletes a directory, files in it are moved to trash from which they can be restored with restore_from_trash (without trash configured they are deleted permanently). It can not be undone with undo_last_edit. A directory that is not empty is deleted along with everything in it only when recursive is true and it contains no more than maxEntries files and directories.",
+    inputSchema: DeleteDirectoryParams,
+    outputSchema: { message: z.string() },
+  },
+  async (params) => {
+    const result = await deleteDirectoryImpl(
+      params as DeleteDirectoryParamsType
+    );
     return {
-      success: false,
-      result: { message: messages.unexpectedError((err as Error).message) },
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
     };
   }
-}
+);
 
-// ======================
-// SERVER REGISTRATION
-// ======================
+server.registerTool(
+  "copy_file",
+  {
+    title: "Copy File",
+    description:
+      "Copies a file, or a directory along with everything in it when recursive is true, to a new path. Symbolic links are copied as links. Fails if the target already exists. Use it to scaffold a new module from an existing one and then edit the copy.",
+    inputSchema: CopyFileParams,
+    outputSchema: {
+      message: z.string(),
+      bytesCopied: z
+        .number()
+        .optional()
+        .describe("Total size of the copied files in bytes."),
+      skippedPaths: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Entries that were not copied: special files and symbolic links pointing outside of the allowed directories."
+        ),
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
+    },
+  },
+  async (params) => {
+    const result = await copyFileImpl(params as CopyFileParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
+);
 
-const server = new McpServer(
-  { name: "file_tools_server", version: "1.0.0", title: "File editing tools" },
-  { capabilities: { tools: { listChanged: true } } }
+server.registerTool(
+  "undo_last_edit",
+  {
+    title: "Undo Last Edit",
+    description:
+      "Reverts the most recent edit made by this server's tools (including created, deleted, moved and renamed files), optionally the most recent edit of a given file. Fails without changing anything if an affected file was modified since the edit.",
+    inputSchema: UndoLastEditParams,
+    outputSchema: {
+      message: z.string(),
+      filePaths: z.array(z.string()).optional(),
+    },
+  },
+  async (params) => {
+    const result = await undoLastEditImpl(params as UndoLastEditParamsType);
+    return {
+      isError: !result.success,
+      content: [{ type: "text", text: JSON.stringify(result.result) }],
+      structuredContent: result.result,
+    };
+  }
 );
 
 server.registerTool(
-  "replace_matching_text",
+  "redo_edit",
   {
-    title: "Replace Matching Text",
-    description: messages.descriptions.searchAndActionTool(
-      "searchText",
-      "replace"
-    ),
-    inputSchema: ReplaceMatchingTextParams,
+    title: "Redo Edit",
+    description:
+      "Re-applies the most recently undone edit, optionally the most recently undone edit of a given file. Fails without changing anything if an affected file was modified since the edit was undone.",
+    inputSchema: RedoEditParams,
     outputSchema: {
       message: z.string(),
-      SuggestedParameterValues: z
-        .array(z.object({ searchText: z.string() }))
-        .optional()
-        .describe(messages.descriptions.suggestedParamArray),
+      filePaths: z.array(z.string()).optional(),
     },
   },
   async (params) => {
-    const result = await replaceMatchingTextImpl(params);
+    const result = await redoEditImpl(params as RedoEditParamsType);
     return {
       isError: !result.success,
       content: [{ type: "text", text: JSON.stringify(result.result) }],
@@ -2146,25 +8373,21 @@ server.registerTool(
 );
 
 server.registerTool(
-  "delete_matching_text",
+  "list_edit_history",
   {
-    title: "Delete Matching Text",
-    description: messages.descriptions.searchAndActionTool(
-      "searchText",
-      "delete"
-    ),
-    inputSchema: DeleteMatchingTextParams,
+    title: "List Edit History",
+    description:
+      "Lists recorded edits that can be undone and undone edits that can be redone, most recent first, optionally only those of a given file.",
+    inputSchema: ListEditHistoryParams,
     outputSchema: {
       message: z.string(),
-      SuggestedParameterValues: z
-        .array(z.object({ searchText: z.string() }))
-        .optional()
-        .describe(messages.descriptions.suggestedParamArray),
+      entries: HistoryEntriesOutputSchema,
+      undoneEntries: HistoryEntriesOutputSchema,
     },
   },
   async (params) => {
-    const result = await deleteMatchingTextImpl(
-      params as DeleteMatchingTextParamsType
+    const result = await listEditHistoryImpl(
+      params as ListEditHistoryParamsType
     );
     return {
       isError: !result.success,
@@ -2174,17 +8397,37 @@ server.registerTool(
   }
 );
 
+const TrashEntriesOutputSchema = z
+  .array(
+    z.object({
+      id: z.string(),
+      originalPath: z.string(),
+      reason: z
+        .enum(["deleted", "overwritten"])
+        .describe(
+          "Whether the file was deleted or this is its content from before it was overwritten."
+        ),
+      trashedAt: z.string(),
+      size: z.number(),
+      mode: z.number(),
+    })
+  )
+  .optional();
+
 server.registerTool(
-  "create_file",
+  "list_trash",
   {
-    title: "Create File",
+    title: "List Trash",
     description:
-      "Create a new file with optional initial content. Fails if file already exists.",
-    inputSchema: CreateFileParams,
-    outputSchema: { message: z.string() },
+      "Lists files that were deleted with delete_file tool or overwritten with overwrite_file_content tool and are kept in trash, most recent first. Use restore_from_trash tool to recover one of them.",
+    inputSchema: ListTrashParams,
+    outputSchema: {
+      message: z.string(),
+      entries: TrashEntriesOutputSchema,
+    },
   },
   async (params) => {
-    const result = await createFileImpl(params as CreateFileParamsType);
+    const result = await listTrashImpl(params as ListTrashParamsType);
     return {
       isError: !result.success,
       content: [{ type: "text", text: JSON.stringify(result.result) }],
@@ -2194,16 +8437,17 @@ server.registerTool(
 );
 
 server.registerTool(
-  "overwrite_file_content",
+  "restore_from_trash",
   {
-    title: "Overwrite File Content",
-    description: "Completely overwrites an existing file with new content.",
-    inputSchema: OverwriteFileContentParams,
+    title: "Restore From Trash",
+    description:
+      "Restores a file from trash to the path it was deleted or overwritten at, or to another path. Fails if the target already exists unless overwrite is true.",
+    inputSchema: RestoreFromTrashParams,
     outputSchema: { message: z.string() },
   },
   async (params) => {
-    const result = await overwriteFileContentImpl(
-      params as OverwriteFileContentParamsType
+    const result = await restoreFromTrashImpl(
+      params as RestoreFromTrashParamsType
     );
     return {
       isError: !result.success,
@@ -2214,18 +8458,16 @@ server.registerTool(
 );
 
 server.registerTool(
-  "append_text_to_file",
+  "empty_trash",
   {
-    title: "Append Text to File",
+    title: "Empty Trash",
     description:
-      "Append text to the end of an existing file, optionally ensuring a newline separator.",
-    inputSchema: AppendTextToFileParams,
+      "Permanently deletes entries from trash, either all of them, the ones with the given ids or the ones older than a number of days. Deleted entries can not be restored.",
+    inputSchema: EmptyTrashParams,
     outputSchema: { message: z.string() },
   },
   async (params) => {
-    const result = await appendTextToFileImpl(
-      params as AppendTextToFileParamsType
-    );
+    const result = await emptyTrashImpl(params as EmptyTrashParamsType);
     return {
       isError: !result.success,
       content: [{ type: "text", text: JSON.stringify(result.result) }],
@@ -2235,31 +8477,34 @@ server.registerTool(
 );
 
 server.registerTool(
-  "insert_text",
+  "read_file",
   {
-    title: "Insert Text",
-    description: messages.descriptions.searchAndActionTool(
-      "anchorText",
-      "insert immediately after/before",
-      false
-    ),
-    inputSchema: InsertTextParams,
+    title: "Read File",
+    description:
+      "Reads a text file, optionally restricted to a range of lines. Returns line numbered content by default. Long output is truncated at a line boundary (or within a line longer than maxCharacters) with a hint on how to continue reading.",
+    inputSchema: ReadFileParams,
     outputSchema: {
       message: z.string(),
-      SuggestedParameterValues: z
-        .array(
-          z.object({
-            searchText: z.string().optional(),
-            anchorBlockStartMarker: z.string().optional(),
-            anchorBlockEndMarker: z.string().optional(),
-          })
-        )
+      content: z.string().optional(),
+      startLine: z.number().optional(),
+      endLine: z.number().optional(),
+      totalLines: z.number().optional(),
+      truncated: z.boolean().optional(),
+      nextStartLine: z.number().optional(),
+      nextStartColumn: z
+        .number()
         .optional()
-        .describe(messages.descriptions.suggestedParamArray),
+        .describe(
+          "Set when only the beginning of the last returned line fit within maxCharacters. Pass it as startColumn along with nextStartLine to read the rest of the line."
+        ),
+      contentHash: EditResultOutputSchema.contentHash,
+      encoding: z.string().optional(),
+      bom: z.boolean().optional(),
+      SuggestedParameterValues: PathSuggestionsOutputSchema,
     },
   },
   async (params) => {
-    const result = await insertTextImpl(params as InsertTextParamsType);
+    const result = await readFileImpl(params as ReadFileParamsType);
     return {
       isError: !result.success,
       content: [{ type: "text", text: JSON.stringify(result.result) }],
@@ -2269,32 +8514,44 @@ server.registerTool(
 );
 
 server.registerTool(
-  "move_text",
+  "search_in_file",
   {
-    title: "Move Text",
-    description: messages.descriptions.searchAndActionTool(
-      "anchorText",
-      "insert immediately after/before",
-      false
-    ),
-    inputSchema: MoveTextParams,
+    title: "Search In File",
+    description:
+      "Read-only search for text in a file. Returns every match with line/column positions and surrounding lines. Does not fail due to formatting differences (whitespaces and new lines). Returns fuzzy suggestions when there is no match. Use it to verify searchText or anchorText before editing.",
+    inputSchema: SearchInFileParams,
     outputSchema: {
       message: z.string(),
+      matches: z
+        .array(
+          z.object({
+            startLine: z.number(),
+            startColumn: z.number(),
+            endLine: z.number(),
+            endColumn: z.number(),
+            matchedText: z.string(),
+            contextStartLine: z.number(),
+            context: z.string(),
+          })
+        )
+        .optional(),
+      contentHash: EditResultOutputSchema.contentHash,
       SuggestedParameterValues: z
         .array(
           z.object({
-            textToBeMoved: z.string().optional(),
             searchText: z.string().optional(),
-            anchorBlockStartMarker: z.string().optional(),
-            anchorBlockEndMarker: z.string().optional(),
+            filePath: z.string().optional(),
+            ...SuggestionDetailsOutputSchema,
           })
         )
         .optional()
-        .describe(messages.descriptions.suggestedParamArray),
+        .describe(
+          `${messages.descriptions.suggestedParamArray} ${messages.descriptions.suggestionDetails} ${messages.descriptions.pathSuggestions}`
+        ),
     },
   },
   async (params) => {
-    const result = await moveTextImpl(params as MoveTextParamsType);
+    const result = await searchInFileImpl(params as SearchInFileParamsType);
     return {
       isError: !result.success,
       content: [{ type: "text", text: JSON.stringify(result.result) }],
@@ -2304,17 +8561,44 @@ server.registerTool(
 );
 
 server.registerTool(
-  "move_or_rename_file",
+  "search_across_files",
   {
-    title: "Move or Rename File",
+    title: "Search Across Files",
     description:
-      "Renames or moves a file to a new path. Fails if target already exists.",
-    inputSchema: MoveOrRenameFileParams,
-    outputSchema: { message: z.string() },
+      "Read-only search for text in all text files under a directory (recursively), optionally filtered by include/exclude globs. Returns file paths with line/column positions of every match. Does not fail due to formatting differences (whitespaces and new lines). Returns closest matches ranked by similarity when there is no exact match. Use it to find which file to edit.",
+    inputSchema: SearchAcrossFilesParams,
+    outputSchema: {
+      message: z.string(),
+      matches: z
+        .array(
+          z.object({
+            filePath: z.string(),
+            startLine: z.number(),
+            startColumn: z.number(),
+            endLine: z.number(),
+            endColumn: z.number(),
+            matchedText: z.string(),
+            contextStartLine: z.number(),
+            context: z.string(),
+          })
+        )
+        .optional(),
+      SuggestedParameterValues: z
+        .array(
+          z.object({
+            filePath: z.string(),
+            searchText: z.string(),
+            startLine: z.number(),
+            similarity: z.number(),
+          })
+        )
+        .optional()
+        .describe(messages.descriptions.suggestedParamArray),
+    },
   },
   async (params) => {
-    const result = await moveOrRenameFileImpl(
-      params as MoveOrRenameFileParamsType
+    const result = await searchAcrossFilesImpl(
+      params as SearchAcrossFilesParamsType
     );
     return {
       isError: !result.success,
@@ -2325,16 +8609,48 @@ server.registerTool(
 );
 
 server.registerTool(
-  "delete_file",
+  "list_directory",
   {
-    title: "Delete File",
+    title: "List Directory",
     description:
-      "Deletes a file. Requires write permissions and file must exist.",
-    inputSchema: DeleteFileParams,
-    outputSchema: { message: z.string() },
+      "Read-only listing of files and directories under a directory, optionally recursive up to a depth and filtered by include/exclude globs and .gitignore files. Returns a tree view along with the relative path, type, size, last modified time and whether each file is binary. Use it to find or verify file paths before reading or editing files.",
+    inputSchema: ListDirectoryParams,
+    outputSchema: {
+      message: z.string(),
+      tree: z
+        .string()
+        .optional()
+        .describe(
+          "Indented tree view of the listed entries. Directories end with '/', symbolic links are followed by '->' and their target."
+        ),
+      entries: z
+        .array(
+          z.object({
+            path: z.string().describe("Path relative to directoryPath."),
+            type: z.enum(["file", "directory", "symlink"]),
+            size: z.number().optional().describe("File size in bytes."),
+            modifiedTime: z.string(),
+            isBinary: z
+              .boolean()
+              .optional()
+              .describe(
+                "True if the file appears to be binary, text editing tools cannot be used on binary files."
+              ),
+            linkTarget: z
+              .string()
+              .optional()
+              .describe("Target of a symbolic link, links are not followed."),
+          })
+        )
+        .optional(),
+      truncated: z
+        .boolean()
+        .optional()
+        .describe("True if maxEntries was reached and entries were omitted."),
+    },
   },
   async (params) => {
-    const result = await deleteFileImpl(params as DeleteFileParamsType);
+    const result = await listDirectoryImpl(params as ListDirectoryParamsType);
     return {
       isError: !result.success,
       content: [{ type: "text", text: JSON.stringify(result.result) }],
@@ -2344,8 +8660,51 @@ server.registerTool(
 );
 
 if (process.env.JEST_WORKER_ID === undefined) {
-  const transport = new StdioServerTransport();
-  server.connect(transport);
+  // Allowed roots can be passed as command line arguments and/or via
+  // FILE_TOOLS_MCP_ALLOWED_ROOTS (separated by the platform path delimiter).
+  // When none are configured, access is not restricted.
+  const roots = [
+    ...process.argv.slice(2),
+    ...(process.env.FILE_TOOLS_MCP_ALLOWED_ROOTS ?? "")
+      .split(path.delimiter)
+      .filter((r) => r.trim().length > 0),
+  ];
+  // Edit history keeps FILE_TOOLS_MCP_HISTORY_DEPTH edits (0 disables it) and
+  // is persisted only when FILE_TOOLS_MCP_STATE_DIR is configured
+  const configuredHistoryDepth = Number.parseInt(
+    process.env.FILE_TOOLS_MCP_HISTORY_DEPTH ?? "",
+    10
+  );
+  Promise.all([
+    configureAllowedRoots(roots),
+    configureEditHistory({
+      depth: Number.isNaN(configuredHistoryDepth)
+        ? undefined
+        : configuredHistoryDepth,
+      stateDir: process.env.FILE_TOOLS_MCP_STATE_DIR,
+    }),
+    // Trash defaults to a directory within the state directory. It is not
+    // kept in a shared location such as the temp directory, where other
+    // users could read or tamper with trashed content.
+    configureTrash({
+      trashDir:
+        process.env.FILE_TOOLS_MCP_TRASH_DIR ??
+        (process.env.FILE_TOOLS_MCP_STATE_DIR
+          ? path.join(process.env.FILE_TOOLS_MCP_STATE_DIR, "trash")
+          : undefined),
+    }),
+  ])
+    .then(() => {
+      const transport = new StdioServerTransport();
+      return server.connect(transport);
+    })
+    .catch((err) => {
+      // stdout is reserved for the MCP protocol
+      console.error(
+        `file_tools_mcp failed to start: ${(err as Error).message}`
+      );
+      process.exit(1);
+    });
 }
 
 export {
@@ -2354,8 +8713,30 @@ export {
   appendTextToFileImpl,
   insertTextImpl,
   moveTextImpl,
+  replaceLinesImpl,
+  deleteLinesImpl,
+  insertAtLineImpl,
   createFileImpl,
   overwriteFileContentImpl,
   moveOrRenameFileImpl,
   deleteFileImpl,
+  createDirectoryImpl,
+  moveOrRenameDirectoryImpl,
+  deleteDirectoryImpl,
+  copyFileImpl,
+  readFileImpl,
+  searchInFileImpl,
+  searchAcrossFilesImpl,
+  listDirectoryImpl,
+  applyEditsImpl,
+  applyMultiFileEditsImpl,
+  undoLastEditImpl,
+  redoEditImpl,
+  listEditHistoryImpl,
+  listTrashImpl,
+  restoreFromTrashImpl,
+  emptyTrashImpl,
+  configureAllowedRoots,
+  configureEditHistory,
+  configureTrash,
 };